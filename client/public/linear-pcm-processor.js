@@ -3,7 +3,7 @@
 
 /**
  * LinearPCMProcessor - AudioWorkletProcessor for converting microphone input
- * from Float32 samples to 16-bit PCM for AssemblyAI streaming.
+ * from Float32 samples to 16-bit PCM, streamed to the server over /voice-ws.
  *
  * This replaces the deprecated ScriptProcessorNode with modern AudioWorklet API.
  */
@@ -1,12 +1,19 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import BookingModal from '@/components/ui/booking-modal';
 import { Mail, MessageCircle } from 'lucide-react';
 import { trackCTAClick } from '@/utils/tracking';
+import { useBookingProvider } from '@/hooks/useBookingProvider';
 
 export default function Footer() {
+  const [isBookingOpen, setIsBookingOpen] = useState(false);
+  const { openScheduling } = useBookingProvider();
+
   const handleBookCall = () => {
     trackCTAClick('book_call');
-    // TODO: Replace with actual Calendly URL
-    window.open('https://calendly.com/your-company/15min', '_blank');
+    if (!openScheduling()) {
+      setIsBookingOpen(true);
+    }
   };
 
   const handleWhatsApp = () => {
@@ -83,6 +90,12 @@ export default function Footer() {
           </div>
         </div>
       </div>
+
+      <BookingModal 
+        isOpen={isBookingOpen}
+        onClose={() => setIsBookingOpen(false)}
+        type="call"
+      />
     </footer>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -18,12 +18,13 @@ import {
   Loader2,
   ExternalLink
 } from 'lucide-react';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
 import { trackEvent } from '@/utils/tracking';
 import { apiRequest } from '@/lib/queryClient';
-import { useAssemblyAI } from '@/hooks/useAssemblyAI';
-import type { TranscriptEvent } from '@/services/assemblyAiStreaming';
-import type { VoiceAgentRequest, VoiceAgentResponse, BookingRequest, BookingResponse, TTSRequest, TTSResponse } from '@shared/schema';
+import { useSpeechStreaming } from '@/hooks/useSpeechStreaming';
+import { useVoiceActivity } from '@/hooks/useVoiceActivity';
+import type { VoiceAgentRequest, VoiceAgentResponse, BookingRequest, BookingResponse, TTSRequest, TTSResponse, Locale, STTProviderId, TranscriptEvent } from '@shared/schema';
 
 // Web Speech API type declarations
 interface SpeechRecognitionEvent extends Event {
@@ -51,12 +52,46 @@ declare global {
   }
 }
 
+// Caller's IANA timezone - the agent speaks slots in this zone and bookings record it
+const callerTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Languages the agent speaks (server/locales.ts) with their speech recognition tags
+const LANGUAGES: Array<{ locale: Locale; label: string; speechLang: string }> = [
+  { locale: 'en', label: 'English', speechLang: 'en-US' },
+  { locale: 'es', label: 'Español', speechLang: 'es-ES' },
+  { locale: 'hi', label: 'हिन्दी', speechLang: 'hi-IN' },
+];
+
+// The browser's language when the agent speaks it, else English
+const browserLocale: Locale = LANGUAGES.find(language => navigator.language.startsWith(language.locale))?.locale ?? 'en';
+
+function speechLangFor(locale: Locale): string {
+  return LANGUAGES.find(language => language.locale === locale)?.speechLang ?? 'en-US';
+}
+
+// apiRequest errors are "<status>: <body>"; 409 means the slot was booked by someone else
+function isSlotTakenError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('409');
+}
+
 interface CollectedData {
   name?: string;
   email?: string;
   meetingPreference?: string;
 }
 
+// One clip of the agent's reply; messageId is the WebSocket turn it belongs to
+interface AgentAudio {
+  url: string;
+  text: string;
+  messageId?: string;
+}
+
+// GET /api/stt/providers - engines the server can transcribe streamed audio with
+interface STTProvidersResponse {
+  providers: Array<{ id: STTProviderId; configured: boolean; locales: Locale[] }>;
+}
+
 interface VoiceSession {
   sessionId: string;
   isActive: boolean;
@@ -74,13 +109,20 @@ export default function LiveVoiceAgentDemo() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [websocketConnected, setWebsocketConnected] = useState(false);
   const [useWebSocket, setUseWebSocket] = useState(true);
-  const [audioQueue, setAudioQueue] = useState<string[]>([]);
-  const [sttProvider, setSttProvider] = useState<'web-speech' | 'assemblyai'>('assemblyai');
+  const [audioQueue, setAudioQueue] = useState<AgentAudio[]>([]);
+  const [locale, setLocale] = useState<Locale>(browserLocale);
+  // 'server' streams microphone audio over /voice-ws and the server transcribes it
+  const [sttProvider, setSttProvider] = useState<'web-speech' | 'server'>('server');
   const [currentTranscript, setCurrentTranscript] = useState('');
   const [interimTranscript, setInterimTranscript] = useState('');
 
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const currentAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Barge-in bookkeeping: the clip playing, the text of the reply heard so far, and interrupted turns
+  // with what the caller heard of them
+  const playingRef = useRef<(AgentAudio & { audio: HTMLAudioElement }) | null>(null);
+  const heardRef = useRef<{ messageId?: string; text: string }>({ text: '' });
+  const cancelledTurnsRef = useRef<Map<string, string>>(new Map());
   const websocketRef = useRef<WebSocket | null>(null);
   const messageIdRef = useRef<number>(0);
   const pendingMessages = useRef<Map<string, (response: any) => void>>(new Map());
@@ -89,14 +131,23 @@ export default function LiveVoiceAgentDemo() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // AssemblyAI streaming hook
-  const assemblyAI = useAssemblyAI({
+  // Languages the server's configured speech recognition engines transcribe
+  const { data: sttProviders } = useQuery<STTProvidersResponse>({ queryKey: ['/api/stt/providers'] });
+  const serverSttLocales = (sttProviders?.providers ?? [])
+    .filter(provider => provider.configured)
+    .flatMap(provider => provider.locales);
+  const serverSttAvailable = serverSttLocales.includes(locale);
+
+  // Fall back to the browser's recognition when no server engine speaks the language
+  useEffect(() => {
+    if (sttProviders && !serverSttAvailable) setSttProvider('web-speech');
+  }, [sttProviders, serverSttAvailable]);
+
+  // Server-side speech recognition hook
+  const serverSpeech = useSpeechStreaming({
     sampleRate: 16000,
-    formatTurns: true,
-    endOfTurnConfidenceThreshold: 0.5, // Lower threshold for better capture (was 0.8)
-    minEndOfTurnSilenceWhenConfident: 500, // Faster turn detection (was 700ms)
     onTranscript: (event: TranscriptEvent) => {
-      if (sttProvider === 'assemblyai' && session) {
+      if (sttProvider === 'server' && session) {
         if (event.endOfTurn && event.text.trim()) {
           // Final transcript - send to voice agent but don't display (interim already shown)
           setInterimTranscript('');
@@ -110,15 +161,15 @@ export default function LiveVoiceAgentDemo() {
       }
     },
     onError: (error) => {
-      console.error('AssemblyAI error:', error);
+      console.error('Speech recognition error:', error);
       toast({
-        title: "AssemblyAI Error",
+        title: "Speech Recognition Error",
         description: error.message,
         variant: "destructive"
       });
     },
     onConnectionChange: (connected) => {
-      console.log(`AssemblyAI connection: ${connected ? 'connected' : 'disconnected'}`);
+      console.log(`Speech recognition connection: ${connected ? 'connected' : 'disconnected'}`);
     }
   });
 
@@ -245,15 +296,7 @@ export default function LiveVoiceAgentDemo() {
 
             // Handle audio playback if available
             if (message.data.audioUrl) {
-              const audio = new Audio(message.data.audioUrl);
-              currentAudioRef.current = audio;
-              setIsSpeaking(true);
-              audio.onended = () => setIsSpeaking(false);
-              audio.onerror = () => setIsSpeaking(false);
-              audio.play().catch(error => {
-                console.error('Audio playback failed:', error);
-                setIsSpeaking(false);
-              });
+              setAudioQueue(prev => [...prev, { url: message.data.audioUrl, text: message.data.replyText, messageId: message.messageId }]);
             }
           }
 
@@ -266,9 +309,9 @@ export default function LiveVoiceAgentDemo() {
         break;
 
       case 'audio_chunk':
-        // Handle streaming audio chunk
-        if (message.chunk) {
-          setAudioQueue(prev => [...prev, message.chunk]);
+        // Handle streaming audio chunk (the rest of an interrupted reply is dropped)
+        if (message.chunk && !cancelledTurnsRef.current.has(message.messageId)) {
+          setAudioQueue(prev => [...prev, { url: message.chunk, text: message.text ?? '', messageId: message.messageId }]);
         }
         break;
 
@@ -278,30 +321,24 @@ export default function LiveVoiceAgentDemo() {
           const resolver = pendingMessages.current.get(message.messageId);
           pendingMessages.current.delete(message.messageId);
 
-          // Update the UI with the response text immediately
+          // Update the UI with the response text immediately - only the part heard if the caller cut in
           if (message.data && sessionRef.current) {
+            const heardText = cancelledTurnsRef.current.get(message.messageId);
+            const replyText = heardText === undefined ? message.data.replyText : heardText && `${heardText}…`;
             const updatedSession = {
               ...sessionRef.current,
-              messages: [...sessionRef.current.messages, {
+              messages: replyText ? [...sessionRef.current.messages, {
                 role: 'assistant' as const,
-                content: message.data.replyText,
+                content: replyText,
                 timestamp: new Date()
-              }],
+              }] : sessionRef.current.messages,
               collectedData: { ...sessionRef.current.collectedData, ...message.data.sessionState.collectedData }
             };
             setSession(updatedSession);
 
             // Play audio if available
-            if (message.data.audioUrl) {
-              const audio = new Audio(message.data.audioUrl);
-              currentAudioRef.current = audio;
-              setIsSpeaking(true);
-              audio.onended = () => setIsSpeaking(false);
-              audio.onerror = () => setIsSpeaking(false);
-              audio.play().catch(error => {
-                console.error('Audio playback failed:', error);
-                setIsSpeaking(false);
-              });
+            if (message.data.audioUrl && heardText === undefined) {
+              setAudioQueue(prev => [...prev, { url: message.data.audioUrl, text: message.data.replyText, messageId: message.messageId }]);
             }
           }
 
@@ -309,6 +346,10 @@ export default function LiveVoiceAgentDemo() {
         }
         break;
 
+      case 'voice_agent_cancelled':
+        console.log(`Server cancelled interrupted turn ${message.messageId}`);
+        break;
+
       case 'voice_agent_stream_error':
       case 'error':
         console.error('WebSocket error:', message.error);
@@ -335,26 +376,84 @@ export default function LiveVoiceAgentDemo() {
       setAudioQueue(prev => prev.slice(1));
 
       // Play the audio chunk
-      const audio = new Audio(nextChunk);
+      const audio = new Audio(nextChunk.url);
       currentAudioRef.current = audio;
+      playingRef.current = { ...nextChunk, audio };
+      if (!nextChunk.messageId || heardRef.current.messageId !== nextChunk.messageId) {
+        heardRef.current = { messageId: nextChunk.messageId, text: '' };
+      }
 
       setIsSpeaking(true);
       audio.onended = () => {
+        heardRef.current.text = [heardRef.current.text, nextChunk.text].filter(Boolean).join(' ');
+        playingRef.current = null;
         setIsSpeaking(false);
         // This will trigger the effect again to play the next chunk
       };
       audio.onerror = () => {
+        playingRef.current = null;
         setIsSpeaking(false);
         console.error('Audio chunk playback error');
       };
 
       audio.play().catch(error => {
         console.error('Failed to play audio chunk:', error);
+        playingRef.current = null;
         setIsSpeaking(false);
       });
     }
   }, [audioQueue, isSpeaking]);
 
+  // Barge-in: the caller started talking over the agent. Stop playback, drop the rest of the reply
+  // and tell the server which part of it the caller actually heard.
+  const interruptAgent = useCallback(() => {
+    const playing = playingRef.current;
+    if (!playing) return;
+    playingRef.current = null;
+    playing.audio.onended = null;
+    playing.audio.pause();
+
+    // Words of the interrupted clip, in proportion to how much of it played
+    const played = playing.audio.duration ? playing.audio.currentTime / playing.audio.duration : 0;
+    const words = playing.text.split(/\s+/).filter(Boolean);
+    const heardText = [heardRef.current.text, words.slice(0, Math.floor(words.length * played)).join(' ')]
+      .filter(Boolean)
+      .join(' ');
+
+    setAudioQueue([]);
+    setIsSpeaking(false);
+    console.log(`✋ Caller interrupted the agent after: "${heardText}"`);
+    trackEvent('voice_barge_in', { sessionId: sessionRef.current?.sessionId });
+
+    if (!playing.messageId || !sessionRef.current) return;
+    cancelledTurnsRef.current.set(playing.messageId, heardText);
+    if (websocketRef.current?.readyState === WebSocket.OPEN) {
+      websocketRef.current.send(JSON.stringify({
+        type: 'cancel',
+        data: { sessionId: sessionRef.current.sessionId, heardText },
+        messageId: playing.messageId
+      }));
+    }
+
+    // A reply already shown in the chat is cut to what was heard (a streaming one is cut when it completes)
+    if (!pendingMessages.current.has(playing.messageId)) {
+      const messages = [...sessionRef.current.messages];
+      const last = messages[messages.length - 1];
+      if (last?.role === 'assistant') {
+        if (heardText) messages[messages.length - 1] = { ...last, content: `${heardText}…` };
+        else messages.pop();
+        setSession({ ...sessionRef.current, messages });
+      }
+    }
+  }, []);
+
+  // Listen for the caller's voice while the agent speaks
+  useVoiceActivity({
+    active: !!session?.isActive,
+    listening: isSpeaking,
+    onSpeechStart: interruptAgent
+  });
+
   // Send WebSocket message with promise support
   const sendWebSocketMessage = useCallback((type: string, data: any, streaming = false): Promise<any> => {
     return new Promise((resolve) => {
@@ -406,11 +505,20 @@ export default function LiveVoiceAgentDemo() {
       return await response.json();
     },
     onSuccess: (data: BookingResponse) => {
-      window.open(data.calendlyUrl, '_blank');
+      if (data.redirectUrl) {
+        window.open(data.redirectUrl, '_blank');
+      }
       toast({
         title: "Booking Confirmed!",
-        description: "Your Calendly link has opened in a new tab to complete the booking.",
-        variant: "default"
+        description: data.redirectUrl
+          ? "Your booking page has opened in a new tab to complete the booking."
+          : "You're all set - add the call to your calendar below.",
+        variant: "default",
+        action: (
+          <ToastAction altText="Download calendar invite" onClick={() => window.open(data.calendarUrl, '_blank')}>
+            Add to calendar
+          </ToastAction>
+        )
       });
       trackEvent('voice_booking_completed', {
         sessionId: session?.sessionId,
@@ -419,6 +527,8 @@ export default function LiveVoiceAgentDemo() {
     },
     onError: (error) => {
       console.error('Booking error:', error);
+      // Slot conflicts are handled in the conversation, not as an error
+      if (isSlotTakenError(error)) return;
       toast({
         title: "Booking Error", 
         description: "Failed to create booking link. Please try again.",
@@ -462,14 +572,16 @@ export default function LiveVoiceAgentDemo() {
       const response = await voiceAgentMutation.mutateAsync({
         sessionId,
         text: '',
-        final: true
+        final: true,
+        timezone: callerTimeZone,
+        locale
       });
 
       handleAgentResponse(response, newSession);
     } catch (error) {
       console.error('Failed to start session:', error);
     }
-  }, [voiceAgentMutation]);
+  }, [voiceAgentMutation, locale]);
 
   // Handle agent response
   const handleAgentResponse = useCallback(async (response: VoiceAgentResponse, currentSession: VoiceSession) => {
@@ -488,8 +600,6 @@ export default function LiveVoiceAgentDemo() {
     // Play audio - either from inline generation or fallback to separate TTS call
     if (response.replyText) {
       try {
-        setIsSpeaking(true);
-
         let audioUrl: string;
 
         // Check if audio was generated inline with the response
@@ -499,28 +609,14 @@ export default function LiveVoiceAgentDemo() {
         } else {
           console.log('Falling back to separate TTS call');
           const ttsResponse = await ttsMutation.mutateAsync({
-            text: response.replyText
+            text: response.replyText,
+            locale
           });
           audioUrl = ttsResponse.audioUrl;
         }
 
-        // Stop any currently playing audio
-        if (currentAudioRef.current) {
-          currentAudioRef.current.pause();
-          currentAudioRef.current.currentTime = 0;
-        }
-
-        // Play the new audio
-        const audio = new Audio(audioUrl);
-        currentAudioRef.current = audio;
-
-        audio.onended = () => setIsSpeaking(false);
-        audio.onerror = () => {
-          setIsSpeaking(false);
-          console.error('Audio playback error');
-        };
-
-        await audio.play();
+        // Played through the queue so the caller can interrupt it
+        setAudioQueue(prev => [...prev, { url: audioUrl, text: response.replyText }]);
       } catch (error) {
         console.error('Audio generation/playback failed:', error);
         setIsSpeaking(false);
@@ -529,12 +625,32 @@ export default function LiveVoiceAgentDemo() {
 
     // If ready to book, proceed with booking
     if (response.readyToBook && updatedSession.collectedData.name && updatedSession.collectedData.email) {
-      await bookingMutation.mutateAsync({
-        name: updatedSession.collectedData.name,
-        email: updatedSession.collectedData.email
-      });
+      try {
+        await bookingMutation.mutateAsync({
+          name: updatedSession.collectedData.name,
+          email: updatedSession.collectedData.email,
+          sessionId: updatedSession.sessionId,
+          timezone: callerTimeZone
+        });
+      } catch (error) {
+        if (!isSlotTakenError(error)) return;
+
+        // Slot was taken by another caller - let the agent apologize and offer a new time
+        trackEvent('voice_booking_slot_taken', { sessionId: updatedSession.sessionId });
+        const followUp = await voiceAgentMutation.mutateAsync({
+          sessionId: updatedSession.sessionId,
+          text: '',
+          final: true,
+          timezone: callerTimeZone,
+          locale
+        });
+        await handleAgentResponse(followUp, {
+          ...updatedSession,
+          collectedData: { name: updatedSession.collectedData.name, email: updatedSession.collectedData.email }
+        });
+      }
     }
-  }, [bookingMutation, ttsMutation]);
+  }, [bookingMutation, ttsMutation, voiceAgentMutation, locale]);
 
   // Send message to agent (WebSocket with HTTP fallback)
   const sendMessage = useCallback(async (text: string, isFinal: boolean = true, useStreaming = false) => {
@@ -563,7 +679,9 @@ export default function LiveVoiceAgentDemo() {
         response = await sendWebSocketMessage('voice_agent', {
           sessionId: session.sessionId,
           text,
-          final: isFinal
+          final: isFinal,
+          timezone: callerTimeZone,
+          locale
         }, useStreaming);
 
         if (!response && !useStreaming) {
@@ -572,7 +690,9 @@ export default function LiveVoiceAgentDemo() {
           response = await voiceAgentMutation.mutateAsync({
             sessionId: session.sessionId,
             text,
-            final: isFinal
+            final: isFinal,
+            timezone: callerTimeZone,
+            locale
           });
         }
       } else {
@@ -581,7 +701,9 @@ export default function LiveVoiceAgentDemo() {
         response = await voiceAgentMutation.mutateAsync({
           sessionId: session.sessionId,
           text,
-          final: isFinal
+          final: isFinal,
+          timezone: callerTimeZone,
+          locale
         });
       }
 
@@ -608,7 +730,7 @@ export default function LiveVoiceAgentDemo() {
     } finally {
       setIsProcessing(false);
     }
-  }, [session, voiceAgentMutation, handleAgentResponse, websocketConnected, useWebSocket, sendWebSocketMessage, toast]);
+  }, [session, voiceAgentMutation, handleAgentResponse, websocketConnected, useWebSocket, sendWebSocketMessage, toast, locale]);
 
   // Initialize speech recognition
   const initializeRecognition = useCallback(() => {
@@ -619,7 +741,7 @@ export default function LiveVoiceAgentDemo() {
     
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = speechLangFor(locale);
 
     recognition.onstart = () => {
       setIsListening(true);
@@ -667,17 +789,18 @@ export default function LiveVoiceAgentDemo() {
     };
 
     recognitionRef.current = recognition;
-  }, [speechSupported, session, sendMessage, toast]);
+  }, [speechSupported, session, sendMessage, toast, locale]);
 
   // Start listening
   const startListening = useCallback(async () => {
     try {
-      if (sttProvider === 'assemblyai') {
-        // Use AssemblyAI
-        if (!assemblyAI.isConnected) {
-          await assemblyAI.connect();
+      if (sttProvider === 'server') {
+        // Stream the microphone to the server for transcription
+        if (!serverSpeech.isConnected) {
+          if (!session) throw new Error('Start a session first');
+          await serverSpeech.connect({ sessionId: session.sessionId, locale });
         }
-        await assemblyAI.startRecording();
+        await serverSpeech.startRecording();
       } else {
         // Use Web Speech API
         if (!recognitionRef.current) {
@@ -699,13 +822,13 @@ export default function LiveVoiceAgentDemo() {
         variant: "destructive"
       });
     }
-  }, [sttProvider, assemblyAI, initializeRecognition, session?.sessionId, toast]);
+  }, [sttProvider, serverSpeech, initializeRecognition, session, locale, toast]);
 
   // Stop listening
   const stopListening = useCallback(() => {
     try {
-      if (sttProvider === 'assemblyai') {
-        assemblyAI.stopRecording();
+      if (sttProvider === 'server') {
+        serverSpeech.stopRecording();
       } else {
         recognitionRef.current?.stop();
       }
@@ -718,7 +841,7 @@ export default function LiveVoiceAgentDemo() {
     } catch (error) {
       console.error('Failed to stop listening:', error);
     }
-  }, [sttProvider, assemblyAI, session?.sessionId]);
+  }, [sttProvider, serverSpeech, session?.sessionId]);
 
   // Stop session
   const stopSession = useCallback(async () => {
@@ -726,9 +849,9 @@ export default function LiveVoiceAgentDemo() {
       // Stop speech recognition
       recognitionRef.current?.abort();
 
-      // Disconnect AssemblyAI if connected
-      if (assemblyAI.isConnected) {
-        await assemblyAI.disconnect();
+      // Close server-side speech recognition if connected
+      if (serverSpeech.isConnected) {
+        await serverSpeech.disconnect();
       }
 
       // Stop any currently playing audio
@@ -736,6 +859,8 @@ export default function LiveVoiceAgentDemo() {
         currentAudioRef.current.pause();
         currentAudioRef.current.currentTime = 0;
       }
+      playingRef.current = null;
+      setAudioQueue([]);
 
       setSession(null);
       setIsListening(false);
@@ -748,7 +873,7 @@ export default function LiveVoiceAgentDemo() {
     } catch (error) {
       console.error('Error stopping session:', error);
     }
-  }, [session?.sessionId, assemblyAI]);
+  }, [session?.sessionId, serverSpeech]);
 
   // Send manual input
   const sendManualInput = useCallback(() => {
@@ -796,6 +921,24 @@ export default function LiveVoiceAgentDemo() {
                 Speech-to-Text Configuration
               </h4>
 
+              {/* Language Selection */}
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-foreground">Language:</label>
+                <div className="flex space-x-4">
+                  {LANGUAGES.map(language => (
+                    <Button
+                      key={language.locale}
+                      variant={locale === language.locale ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setLocale(language.locale)}
+                      data-testid={`button-language-${language.locale}`}
+                    >
+                      {language.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
               {/* Provider Selection */}
               <div className="space-y-3">
                 <label className="text-sm font-medium text-foreground">Choose STT Provider:</label>
@@ -810,11 +953,13 @@ export default function LiveVoiceAgentDemo() {
                     {!speechSupported && <span className="ml-1 text-xs">(Not Supported)</span>}
                   </Button>
                   <Button
-                    variant={sttProvider === 'assemblyai' ? 'default' : 'outline'}
+                    variant={sttProvider === 'server' ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => setSttProvider('assemblyai')}
+                    onClick={() => setSttProvider('server')}
+                    disabled={!serverSttAvailable}
                   >
-                    AssemblyAI
+                    Server STT
+                    {!serverSttAvailable && <span className="ml-1 text-xs">(Not configured for this language)</span>}
                     <Badge variant="outline" className="ml-2 text-xs">
                       Recommended
                     </Badge>
@@ -836,8 +981,8 @@ export default function LiveVoiceAgentDemo() {
                     </Badge>
                   )
                 ) : (
-                  <Badge variant="outline" className={assemblyAI.isSupported ? "bg-green-50 text-green-700 border-green-200" : "bg-red-50 text-red-700 border-red-200"}>
-                    {assemblyAI.isSupported ? '✓' : '✗'} AssemblyAI Ready
+                  <Badge variant="outline" className={serverSpeech.isSupported ? "bg-green-50 text-green-700 border-green-200" : "bg-red-50 text-red-700 border-red-200"}>
+                    {serverSpeech.isSupported ? '✓' : '✗'} Server STT Ready
                   </Badge>
                 )}
               </div>
@@ -855,8 +1000,8 @@ export default function LiveVoiceAgentDemo() {
                 Book Call Using Voice Agent
               </Button>
               <p className="text-muted-foreground text-sm mt-4">
-                {sttProvider === 'assemblyai'
-                  ? "Click to start a voice conversation using AssemblyAI real-time streaming"
+                {sttProvider === 'server'
+                  ? "Click to start a voice conversation with real-time server-side transcription"
                   : speechSupported
                     ? "Click to start a voice conversation using Web Speech API"
                     : "Voice not supported - you'll be able to use text input"
@@ -877,10 +1022,10 @@ export default function LiveVoiceAgentDemo() {
                 {/* STT Provider Status */}
                 <Badge
                   variant="outline"
-                  className={`text-xs ${sttProvider === 'assemblyai' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'}`}
+                  className={`text-xs ${sttProvider === 'server' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'}`}
                 >
-                  🎤 {sttProvider === 'assemblyai' ? 'AssemblyAI' : 'Web Speech'}
-                  {sttProvider === 'assemblyai' && assemblyAI.isConnected && (
+                  🎤 {sttProvider === 'server' ? `Server STT${serverSpeech.provider ? ` (${serverSpeech.provider})` : ''}` : 'Web Speech'}
+                  {sttProvider === 'server' && serverSpeech.isConnected && (
                     <span className="ml-1">●</span>
                   )}
                 </Badge>
@@ -3,7 +3,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { MessageCircle, X, Send, Bot, User } from 'lucide-react';
+import BookingModal from '@/components/ui/booking-modal';
 import { trackEvent } from '@/utils/tracking';
+import { useBookingProvider } from '@/hooks/useBookingProvider';
 
 interface Message {
   id: string;
@@ -40,6 +42,8 @@ export default function AIChatWidget() {
   ]);
   const [inputText, setInputText] = useState('');
   const [leadScore, setLeadScore] = useState(0);
+  const [isBookingOpen, setIsBookingOpen] = useState(false);
+  const { openScheduling } = useBookingProvider();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -104,7 +108,9 @@ export default function AIChatWidget() {
 
   const handleBookCall = () => {
     trackEvent('chat_booking_requested', { lead_score: leadScore });
-    window.open('https://calendly.com/your-company/15min', '_blank');
+    if (!openScheduling()) {
+      setIsBookingOpen(true);
+    }
   };
 
   const toggleChat = () => {
@@ -239,6 +245,12 @@ export default function AIChatWidget() {
       >
         <MessageCircle className="w-6 h-6" />
       </Button>
+
+      <BookingModal 
+        isOpen={isBookingOpen}
+        onClose={() => setIsBookingOpen(false)}
+        type="call"
+      />
     </>
   );
 }
\ No newline at end of file
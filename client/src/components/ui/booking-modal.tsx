@@ -1,11 +1,19 @@
 import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Calendar, MessageSquare, X } from 'lucide-react';
-import { trackFormSubmit } from '@/utils/tracking';
+import { ToastAction } from '@/components/ui/toast';
+import { trackEvent, trackFormSubmit } from '@/utils/tracking';
+import { useToast } from '@/hooks/use-toast';
+import { useBookingProvider } from '@/hooks/useBookingProvider';
+import { apiRequest } from '@/lib/queryClient';
+import type { BookingRequest, BookingResponse, SlotOption } from '@shared/schema';
+
+const visitorTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 interface BookingModalProps {
   isOpen: boolean;
@@ -14,7 +22,10 @@ interface BookingModalProps {
 }
 
 export default function BookingModal({ isOpen, onClose, type }: BookingModalProps) {
-  const [step, setStep] = useState<'calendly' | 'form'>('calendly');
+  const [step, setStep] = useState<'schedule' | 'form'>('schedule');
+  const [selectedSlot, setSelectedSlot] = useState<SlotOption | null>(null);
+  const { schedulingUrl, openScheduling } = useBookingProvider();
+  const { toast } = useToast();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -24,6 +35,71 @@ export default function BookingModal({ isOpen, onClose, type }: BookingModalProp
     preferWhatsApp: false
   });
 
+  // Native/webhook providers book directly against our availability
+  const slotsQuery = useQuery<SlotOption[]>({
+    queryKey: ['/api/availability', visitorTimeZone],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/availability?timezone=${encodeURIComponent(visitorTimeZone)}`);
+      return await response.json();
+    },
+    enabled: isOpen && !schedulingUrl,
+    staleTime: 60 * 1000,
+  });
+
+  const bookingMutation = useMutation({
+    mutationFn: async (request: BookingRequest): Promise<BookingResponse> => {
+      const response = await apiRequest('POST', '/api/book', request);
+      return await response.json();
+    },
+    onSuccess: (data: BookingResponse) => {
+      if (data.redirectUrl) {
+        window.open(data.redirectUrl, '_blank');
+      }
+      toast({
+        title: "Booking Confirmed!",
+        description: `You're booked for ${selectedSlot?.label}.`,
+        action: (
+          <ToastAction altText="Download calendar invite" onClick={() => window.open(data.calendarUrl, '_blank')}>
+            Add to calendar
+          </ToastAction>
+        )
+      });
+      trackEvent('booking_modal_completed', { type, provider: data.provider });
+      setSelectedSlot(null);
+      onClose();
+    },
+    onError: (error) => {
+      // 409 means someone else took the slot - refresh the list so they can pick another
+      const slotTaken = error instanceof Error && error.message.startsWith('409');
+      toast({
+        title: slotTaken ? "Slot Unavailable" : "Booking Error",
+        description: slotTaken ? "That time was just taken. Please pick another time." : "Failed to book your call. Please try again.",
+        variant: "destructive"
+      });
+      if (slotTaken) {
+        setSelectedSlot(null);
+        slotsQuery.refetch();
+      }
+    }
+  });
+
+  const handleOpenCalendar = () => {
+    openScheduling();
+    onClose();
+  };
+
+  const handleConfirmBooking = () => {
+    if (!selectedSlot) return;
+    bookingMutation.mutate({
+      name: formData.name.trim(),
+      email: formData.email.trim(),
+      meetingTime: selectedSlot.start,
+      timezone: visitorTimeZone
+    });
+  };
+
+  const canConfirm = !!selectedSlot && !!formData.name.trim() && !!formData.email.trim() && !bookingMutation.isPending;
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     trackFormSubmit(type === 'call' ? 'booking_call' : 'booking_demo');
@@ -67,19 +143,65 @@ export default function BookingModal({ isOpen, onClose, type }: BookingModalProp
           <p className="text-sm text-muted-foreground">{description}</p>
         </DialogHeader>
 
-        {step === 'calendly' ? (
+        {step === 'schedule' ? (
           <div className="space-y-4">
-            <div className="aspect-video bg-card rounded-lg flex items-center justify-center border-2 border-dashed border-border">
-              <div className="text-center space-y-3">
-                <Calendar className="w-12 h-12 text-primary mx-auto" />
-                <div>
-                  <h3 className="font-semibold text-foreground">Calendly Integration</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Calendar widget would appear here
-                  </p>
+            {schedulingUrl ? (
+              <div className="aspect-video bg-card rounded-lg flex items-center justify-center border-2 border-dashed border-border">
+                <div className="text-center space-y-3">
+                  <Calendar className="w-12 h-12 text-primary mx-auto" />
+                  <div>
+                    <h3 className="font-semibold text-foreground">Pick a Time</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Our scheduling page opens in a new tab
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="max-h-48 overflow-y-auto grid grid-cols-1 gap-2" data-testid="slot-list">
+                  {slotsQuery.isLoading && (
+                    <p className="text-sm text-muted-foreground">Loading available times...</p>
+                  )}
+                  {slotsQuery.data?.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No times available right now. Please use the contact form.</p>
+                  )}
+                  {slotsQuery.data?.map(slot => (
+                    <Button
+                      key={slot.start}
+                      type="button"
+                      size="sm"
+                      variant={selectedSlot?.start === slot.start ? 'default' : 'outline'}
+                      onClick={() => setSelectedSlot(slot)}
+                      data-testid={`slot-${slot.start}`}
+                    >
+                      {slot.label}
+                    </Button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="booking-name">Name *</Label>
+                    <Input
+                      id="booking-name"
+                      value={formData.name}
+                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                      data-testid="input-booking-name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="booking-email">Email *</Label>
+                    <Input
+                      id="booking-email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                      data-testid="input-booking-email"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
             
             <div className="flex space-x-2">
               <Button 
@@ -92,14 +214,26 @@ export default function BookingModal({ isOpen, onClose, type }: BookingModalProp
                 <MessageSquare className="w-4 h-4 mr-2" />
                 Use Contact Form
               </Button>
-              <Button 
-                size="sm" 
-                onClick={onClose}
-                className="flex-1 bg-primary text-primary-foreground"
-                data-testid="open-calendly"
-              >
-                Open Calendar
-              </Button>
+              {schedulingUrl ? (
+                <Button 
+                  size="sm" 
+                  onClick={handleOpenCalendar}
+                  className="flex-1 bg-primary text-primary-foreground"
+                  data-testid="open-calendly"
+                >
+                  Open Calendar
+                </Button>
+              ) : (
+                <Button 
+                  size="sm" 
+                  onClick={handleConfirmBooking}
+                  disabled={!canConfirm}
+                  className="flex-1 bg-primary text-primary-foreground"
+                  data-testid="confirm-booking"
+                >
+                  {bookingMutation.isPending ? 'Booking...' : 'Confirm Booking'}
+                </Button>
+              )}
             </div>
           </div>
         ) : (
@@ -178,7 +312,7 @@ export default function BookingModal({ isOpen, onClose, type }: BookingModalProp
               <Button 
                 type="button" 
                 variant="outline" 
-                onClick={() => setStep('calendly')}
+                onClick={() => setStep('schedule')}
                 className="flex-1"
               >
                 Back to Calendar
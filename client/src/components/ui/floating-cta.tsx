@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { X, Calendar } from 'lucide-react';
+import BookingModal from '@/components/ui/booking-modal';
 import { trackCTAClick } from '@/utils/tracking';
+import { useBookingProvider } from '@/hooks/useBookingProvider';
 
 interface FloatingCTAProps {
   isVisible?: boolean;
@@ -10,6 +12,8 @@ interface FloatingCTAProps {
 export default function FloatingCTA({ isVisible = true }: FloatingCTAProps) {
   const [isMinimized, setIsMinimized] = useState(false);
   const [slotsLeft, setSlotsLeft] = useState(3);
+  const [isBookingOpen, setIsBookingOpen] = useState(false);
+  const { openScheduling } = useBookingProvider();
 
   useEffect(() => {
     // Simulate real-time availability updates
@@ -22,7 +26,9 @@ export default function FloatingCTA({ isVisible = true }: FloatingCTAProps) {
 
   const handleBookCall = () => {
     trackCTAClick('book_call');
-    window.open('https://calendly.com/your-company/15min', '_blank');
+    if (!openScheduling()) {
+      setIsBookingOpen(true);
+    }
   };
 
   if (!isVisible || isMinimized) {
@@ -82,6 +88,12 @@ export default function FloatingCTA({ isVisible = true }: FloatingCTAProps) {
           </Button>
         </div>
       </div>
+
+      <BookingModal 
+        isOpen={isBookingOpen}
+        onClose={() => setIsBookingOpen(false)}
+        type="call"
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { BookingProviderInfo } from '@shared/schema';
+
+export interface UseBookingProviderReturn {
+  provider: BookingProviderInfo['provider'] | undefined;
+  schedulingUrl: string | null;
+  // Opens the external scheduling page; returns false when the site's own booking form should be shown
+  openScheduling: () => boolean;
+}
+
+export function useBookingProvider(): UseBookingProviderReturn {
+  const { data } = useQuery<BookingProviderInfo>({
+    queryKey: ['/api/booking/provider'],
+  });
+
+  const schedulingUrl = data?.schedulingUrl ?? null;
+
+  const openScheduling = useCallback(() => {
+    if (!schedulingUrl) return false;
+    window.open(schedulingUrl, '_blank');
+    return true;
+  }, [schedulingUrl]);
+
+  return {
+    provider: data?.provider,
+    schedulingUrl,
+    openScheduling,
+  };
+}
@@ -1,24 +1,26 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import AssemblyAIStreamingService, {
+import type { STTProviderId } from '@shared/schema';
+import SpeechStreamingService, {
   type TranscriptEvent,
-  type AssemblyAIStreamingConfig
-} from '@/services/assemblyAiStreaming';
+  type SpeechStreamingConfig,
+  type SpeechStreamingSession
+} from '@/services/speechStreaming';
 
-export interface UseAssemblyAIOptions {
+export interface UseSpeechStreamingOptions {
   sampleRate?: number;
-  formatTurns?: boolean;
-  endOfTurnConfidenceThreshold?: number;
-  minEndOfTurnSilenceWhenConfident?: number;
+  provider?: STTProviderId;
   onTranscript?: (event: TranscriptEvent) => void;
   onError?: (error: Error) => void;
   onConnectionChange?: (connected: boolean) => void;
 }
 
-export interface UseAssemblyAIReturn {
+export interface UseSpeechStreamingReturn {
   isConnected: boolean;
   isRecording: boolean;
   isSupported: boolean;
-  connect: () => Promise<void>;
+  // Engine the server is transcribing with, once connected
+  provider: STTProviderId | null;
+  connect: (session: SpeechStreamingSession) => Promise<void>;
   disconnect: () => Promise<void>;
   startRecording: () => Promise<void>;
   stopRecording: () => void;
@@ -26,12 +28,13 @@ export interface UseAssemblyAIReturn {
   clearError: () => void;
 }
 
-export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAIReturn {
+export function useSpeechStreaming(options: UseSpeechStreamingOptions = {}): UseSpeechStreamingReturn {
   const [isConnected, setIsConnected] = useState(false);
+  const [provider, setProvider] = useState<STTProviderId | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const serviceRef = useRef<AssemblyAIStreamingService | null>(null);
+  const serviceRef = useRef<SpeechStreamingService | null>(null);
   const optionsRef = useRef(options);
 
   // Update options ref when options change
@@ -40,7 +43,7 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
   }, [options]);
 
   // Check if service is supported
-  const isSupported = AssemblyAIStreamingService.isSupported();
+  const isSupported = SpeechStreamingService.isSupported();
 
   // Clear error
   const clearError = useCallback(() => {
@@ -50,14 +53,12 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
   // Initialize service if needed
   const initializeService = useCallback(() => {
     if (!serviceRef.current) {
-      const config: AssemblyAIStreamingConfig = {
+      const config: SpeechStreamingConfig = {
         sampleRate: options.sampleRate,
-        formatTurns: options.formatTurns,
-        endOfTurnConfidenceThreshold: options.endOfTurnConfidenceThreshold,
-        minEndOfTurnSilenceWhenConfident: options.minEndOfTurnSilenceWhenConfident,
+        provider: options.provider,
       };
 
-      serviceRef.current = new AssemblyAIStreamingService(config);
+      serviceRef.current = new SpeechStreamingService(config);
 
       // Set up event handlers
       serviceRef.current.onTranscript((event) => {
@@ -71,33 +72,35 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
 
       serviceRef.current.onConnected(() => {
         setIsConnected(true);
+        setProvider(serviceRef.current?.provider ?? null);
         optionsRef.current.onConnectionChange?.(true);
       });
 
       serviceRef.current.onDisconnected(() => {
         setIsConnected(false);
         setIsRecording(false);
+        setProvider(null);
         optionsRef.current.onConnectionChange?.(false);
       });
     }
-  }, [options.sampleRate, options.formatTurns, options.endOfTurnConfidenceThreshold, options.minEndOfTurnSilenceWhenConfident]);
+  }, [options.sampleRate, options.provider]);
 
-  // Connect to AssemblyAI
-  const connect = useCallback(async () => {
+  // Open a server-side speech recognition stream for the session
+  const connect = useCallback(async (session: SpeechStreamingSession) => {
     try {
       clearError();
 
       if (!isSupported) {
-        throw new Error('AssemblyAI streaming is not supported in this browser');
+        throw new Error('Microphone streaming is not supported in this browser');
       }
 
       initializeService();
 
       if (!serviceRef.current) {
-        throw new Error('Failed to initialize AssemblyAI service');
+        throw new Error('Failed to initialize speech recognition');
       }
 
-      await serviceRef.current.connect();
+      await serviceRef.current.connect(session);
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Connection failed');
       setError(error);
@@ -105,7 +108,7 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
     }
   }, [isSupported, initializeService, clearError]);
 
-  // Disconnect from AssemblyAI
+  // Close the speech recognition stream
   const disconnect = useCallback(async () => {
     try {
       if (serviceRef.current) {
@@ -114,6 +117,7 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
       }
       setIsConnected(false);
       setIsRecording(false);
+      setProvider(null);
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Disconnection failed');
       setError(error);
@@ -127,7 +131,7 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
       clearError();
 
       if (!serviceRef.current || !serviceRef.current.connected) {
-        throw new Error('Not connected to AssemblyAI. Call connect() first.');
+        throw new Error('Speech recognition not connected. Call connect() first.');
       }
 
       await serviceRef.current.startRecording();
@@ -165,6 +169,7 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
     isConnected,
     isRecording,
     isSupported,
+    provider,
     connect,
     disconnect,
     startRecording,
@@ -174,4 +179,4 @@ export function useAssemblyAI(options: UseAssemblyAIOptions = {}): UseAssemblyAI
   };
 }
 
-export default useAssemblyAI;
\ No newline at end of file
+export default useSpeechStreaming;
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useEffect, useRef } from 'react';
+
+export interface UseVoiceActivityOptions {
+  // Keep the microphone open (e.g. while a voice session is running)
+  active: boolean;
+  // Report speech only while this is true (e.g. while the agent is speaking)
+  listening: boolean;
+  onSpeechStart: () => void;
+  // RMS level (0-1) that counts as speech; raised above the background noise automatically
+  threshold?: number;
+  // Speech must last this long, so clicks and coughs don't count
+  minSpeechMs?: number;
+}
+
+const FRAME_MS = 30;
+
+// Energy-based voice activity detection on the microphone. Uses the browser's echo cancellation so
+// the agent's own voice from the speakers doesn't count as the caller speaking.
+export function useVoiceActivity(options: UseVoiceActivityOptions): void {
+  const { active, listening, threshold = 0.04, minSpeechMs = 250 } = options;
+  const optionsRef = useRef(options);
+  const listeningRef = useRef(listening);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    listeningRef.current = listening;
+  }, [listening]);
+
+  useEffect(() => {
+    if (!active || !navigator.mediaDevices?.getUserMedia) return;
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+        if (stopped) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+
+        let noiseFloor = 0;
+        let speechMs = 0;
+        let reported = false;
+
+        timer = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+          const level = Math.sqrt(sum / samples.length);
+
+          if (!listeningRef.current) {
+            // Learn the room's background level between agent replies
+            noiseFloor = noiseFloor * 0.95 + level * 0.05;
+            speechMs = 0;
+            reported = false;
+            return;
+          }
+
+          speechMs = level > Math.max(threshold, noiseFloor * 3) ? speechMs + FRAME_MS : 0;
+          if (speechMs >= minSpeechMs && !reported) {
+            reported = true;
+            console.log(`🗣️ Caller started speaking (level ${level.toFixed(3)})`);
+            optionsRef.current.onSpeechStart();
+          }
+        }, FRAME_MS);
+      } catch (error) {
+        console.error('Voice activity detection unavailable:', error);
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      audioContext?.close().catch(console.error);
+    };
+  }, [active, threshold, minSpeechMs]);
+}
+
+export default useVoiceActivity;
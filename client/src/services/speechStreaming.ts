@@ -0,0 +1,224 @@
+import type { Locale, STTProviderId, TranscriptEvent } from '@shared/schema';
+
+export type { TranscriptEvent };
+
+export interface SpeechStreamingConfig {
+  sampleRate?: number;
+  // Engine to transcribe with; the server picks one when unset
+  provider?: STTProviderId;
+}
+
+export interface SpeechStreamingSession {
+  sessionId: string;
+  locale?: Locale;
+}
+
+// Streams microphone audio to the server over /voice-ws as binary PCM frames. The server runs the
+// speech recognition (AssemblyAI, Deepgram, Whisper or Vosk) and sends transcripts back.
+export class SpeechStreamingService {
+  private socket: WebSocket | null = null;
+  private audioContext: AudioContext | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private mediaStream: MediaStream | null = null;
+  private isConnected = false;
+  private config: SpeechStreamingConfig;
+  private activeProvider: STTProviderId | null = null;
+
+  // Event handlers
+  private onTranscriptHandler?: (event: TranscriptEvent) => void;
+  private onErrorHandler?: (error: Error) => void;
+  private onConnectedHandler?: () => void;
+  private onDisconnectedHandler?: () => void;
+
+  constructor(config: SpeechStreamingConfig) {
+    this.config = {
+      sampleRate: 16000,
+      ...config,
+    };
+  }
+
+  // Event listeners
+  onTranscript(handler: (event: TranscriptEvent) => void) {
+    this.onTranscriptHandler = handler;
+  }
+
+  onError(handler: (error: Error) => void) {
+    this.onErrorHandler = handler;
+  }
+
+  onConnected(handler: () => void) {
+    this.onConnectedHandler = handler;
+  }
+
+  onDisconnected(handler: () => void) {
+    this.onDisconnectedHandler = handler;
+  }
+
+  async connect(session: SpeechStreamingSession): Promise<void> {
+    try {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/voice-ws`);
+      socket.binaryType = 'arraybuffer';
+      this.socket = socket;
+
+      // Resolves once the server has opened a speech recognition stream for this connection
+      const started = new Promise<void>((resolve, reject) => {
+        socket.onopen = () => {
+          socket.send(JSON.stringify({
+            type: 'audio_start',
+            data: {
+              sessionId: session.sessionId,
+              sampleRate: this.config.sampleRate,
+              locale: session.locale,
+              provider: this.config.provider,
+            },
+          }));
+        };
+
+        socket.onmessage = (event) => {
+          const message = JSON.parse(event.data);
+          if (message.type === 'audio_started') {
+            this.activeProvider = message.provider;
+            this.isConnected = true;
+            console.log(`🎙️ Server speech recognition started (${message.provider})`);
+            this.onConnectedHandler?.();
+            resolve();
+          } else if (message.type === 'transcript') {
+            this.onTranscriptHandler?.(message.data as TranscriptEvent);
+          } else if (message.type === 'error') {
+            const error = new Error(message.error || 'Speech recognition failed');
+            if (this.isConnected) {
+              this.onErrorHandler?.(error);
+            } else {
+              reject(error);
+            }
+          }
+        };
+
+        socket.onerror = () => reject(new Error('Speech recognition connection failed'));
+      });
+
+      socket.onclose = () => {
+        console.log('Speech recognition connection closed');
+        this.isConnected = false;
+        this.activeProvider = null;
+        this.onDisconnectedHandler?.();
+      };
+
+      console.log(`🔌 Connecting speech recognition...`);
+      await started;
+    } catch (error) {
+      console.error('Failed to start speech recognition:', error);
+      this.socket?.close();
+      this.socket = null;
+      if (this.onErrorHandler) {
+        this.onErrorHandler(error instanceof Error ? error : new Error('Connection failed'));
+      }
+      throw error;
+    }
+  }
+
+  async startRecording(): Promise<void> {
+    if (!this.isConnected || !this.socket) {
+      throw new Error('Speech recognition not connected. Call connect() first.');
+    }
+
+    try {
+      // Get user media
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          sampleRate: this.config.sampleRate,
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+
+      // Create audio context
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
+        sampleRate: this.config.sampleRate,
+      });
+
+      const source = this.audioContext.createMediaStreamSource(this.mediaStream);
+
+      // Load the AudioWorklet module
+      await this.audioContext.audioWorklet.addModule('/linear-pcm-processor.js');
+
+      // Create AudioWorkletNode
+      this.workletNode = new AudioWorkletNode(this.audioContext, 'linear-pcm-processor');
+
+      // Forward PCM chunks from the worklet to the server as binary frames
+      this.workletNode.port.onmessage = (event) => {
+        if (this.socket?.readyState === WebSocket.OPEN && this.isConnected) {
+          const pcm16Buffer = event.data as Int16Array;
+          this.socket.send(pcm16Buffer.buffer);
+        }
+      };
+
+      // Connect the audio processing chain
+      source.connect(this.workletNode);
+      this.workletNode.connect(this.audioContext.destination);
+
+      console.log(`🎤 Started recording - Audio Context State: ${this.audioContext.state}, Sample Rate: ${this.audioContext.sampleRate}`);
+
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      if (this.onErrorHandler) {
+        this.onErrorHandler(error instanceof Error ? error : new Error('Recording failed'));
+      }
+      throw error;
+    }
+  }
+
+  stopRecording(): void {
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode.port.close();
+      this.workletNode = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+    }
+
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
+    }
+
+    console.log('Stopped recording');
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopRecording();
+
+    if (this.socket) {
+      if (this.socket.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify({ type: 'audio_stop' }));
+      }
+      this.socket.close();
+      this.socket = null;
+      this.isConnected = false;
+    }
+
+    console.log('Disconnected speech recognition');
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  // Engine the server is transcribing with
+  get provider(): STTProviderId | null {
+    return this.activeProvider;
+  }
+
+  // Static method to check if microphone streaming is supported
+  static isSupported(): boolean {
+    return typeof AudioWorkletNode !== 'undefined' && !!(navigator.mediaDevices && navigator.mediaDevices.getUserMedia);
+  }
+}
+
+export default SpeechStreamingService;
@@ -0,0 +1,293 @@
+import type { z, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { fromZodError } from "zod-validation-error";
+import {
+  createChatCompletion,
+  streamChatCompletion,
+  type ChatCompletion,
+  type ChatDeltaHandler,
+  type ChatMessage,
+  type ToolCall,
+  type ToolDefinition
+} from "./llmProviders";
+import {
+  getAvailableSlots,
+  holdSlotForSession,
+  findSlotByStart,
+  formatSlotLabel,
+  toSlotOption,
+  rankSlotsForRequest,
+  type AvailableSlot
+} from "./availability";
+import { parseClock, toDateKey } from "./timezone";
+import { parseTimeRequest, type TimeRequest } from "./spokenTime";
+import { deriveBookingState, describeBookingStep } from "./bookingFlow";
+import {
+  agentToolNameSchema,
+  setNameArgsSchema,
+  setEmailArgsSchema,
+  checkAvailabilityArgsSchema,
+  holdSlotArgsSchema,
+  confirmBookingArgsSchema,
+  type AgentToolName,
+  type SlotSelection,
+  type VoiceAgentSession
+} from "@shared/schema";
+
+// ============================================================================
+// AGENT TOOLS - the LLM records name, email and slot through validated function calls
+// ============================================================================
+
+// AGENT_TOOL_CALLING=false goes back to extracting details from the caller's words with regexes
+export const AGENT_TOOLS_ENABLED = process.env.AGENT_TOOL_CALLING !== "false";
+
+// Tool call rounds per turn before the model has to answer
+const MAX_TOOL_ROUNDS = 4;
+// Said when the model is still calling tools after MAX_TOOL_ROUNDS
+const OUT_OF_ROUNDS_REPLY = JSON.stringify({
+  replyText: "Sorry, I need a moment there. Could you say that again?",
+  askFor: null,
+  readyToBook: false,
+});
+const MAX_OFFERED_SLOTS = 6;
+
+const AGENT_TOOLS_PROMPT = `TOOLS - I only keep what you record through function calls, so call them BEFORE writing your JSON reply:
+- set_name as soon as the caller tells you their name
+- check_availability before suggesting any time, and only offer times it returns (pass the caller's words as "when" when they ask for a specific day or time)
+- hold_slot with the slot's start as soon as the caller picks a time - if it fails, apologize and offer another
+- set_email once the caller gives their email, then read it back
+- confirm_booking only after the caller confirms their name, time and email are correct - it books the call, readyToBook in your JSON is ignored
+If a tool returns an error, fix the arguments or ask the caller again. Never claim something was saved or booked unless the tool said ok.`;
+
+// State shared by the tool calls of one turn
+interface AgentTurn {
+  session: VoiceAgentSession;
+  timeZone: string;
+  // The details were read back to the caller in an earlier turn
+  canBook: boolean;
+  // Set once confirm_booking succeeds
+  readyToBook: boolean;
+}
+
+type ToolResult = Record<string, unknown>;
+
+interface AgentTool<S extends ZodTypeAny = ZodTypeAny> {
+  description: string;
+  args: S;
+  // Called with the arguments once they pass the args schema
+  run(args: z.infer<S>, turn: AgentTurn): Promise<ToolResult>;
+}
+
+// Types run's arguments from the tool's own schema
+function defineTool<S extends ZodTypeAny>(tool: AgentTool<S>): AgentTool<S> {
+  return tool;
+}
+
+// Serialize an availability slot for session storage
+export function toSlotSelection(slot: AvailableSlot): SlotSelection {
+  return {
+    start: slot.start.toISOString(),
+    end: slot.end.toISOString(),
+    hostId: slot.hostId
+  };
+}
+
+// Record the slot the caller agreed to
+export function selectSlot(session: VoiceAgentSession, slot: AvailableSlot): void {
+  session.collectedData.meetingPreference = slot.label;
+  session.collectedData.selectedSlot = toSlotSelection(slot);
+}
+
+const TOOLS: Record<AgentToolName, AgentTool> = {
+  set_name: defineTool({
+    description: "Save the caller's name.",
+    args: setNameArgsSchema,
+    async run({ name }, { session }) {
+      session.collectedData.name = name;
+      return { ok: true, name };
+    },
+  }),
+
+  set_email: defineTool({
+    description: "Save the caller's email address (spoken emails converted to the written form).",
+    args: setEmailArgsSchema,
+    async run({ email }, { session }) {
+      session.collectedData.email = email;
+      return { ok: true, email };
+    },
+  }),
+
+  check_availability: defineTool({
+    description: "List open meeting slots, optionally on one day and/or closest to a time. Times are in the caller's timezone.",
+    args: checkAvailabilityArgsSchema,
+    async run({ date, time, when }, { session, timeZone }) {
+      const request: TimeRequest | undefined = when
+        ? parseTimeRequest(when, { timeZone, locale: session.locale })
+        : { dates: date ? [date] : undefined, time: time ? parseClock(time) : undefined };
+      if (!request) {
+        return { ok: false, error: `Couldn't tell which day or time "${when}" means - pass date/time instead` };
+      }
+
+      const slots = await getAvailableSlots({ timeZone, sessionId: session.sessionId });
+      const matches = rankSlotsForRequest(slots, request, timeZone);
+      const offered = matches.slice(0, MAX_OFFERED_SLOTS).map(toSlotOption);
+      session.collectedData.offeredSlots = offered;
+      if (offered.length === 0) {
+        return { ok: true, slots: [], note: date || when ? "No open slots at that time" : "No open slots in the coming days" };
+      }
+      return { ok: true, timezone: timeZone, slots: offered };
+    },
+  }),
+
+  hold_slot: defineTool({
+    description: "Reserve the slot the caller picked while the booking is completed. Use a start returned by check_availability.",
+    args: holdSlotArgsSchema,
+    async run({ start }, { session, timeZone }) {
+      const slots = await getAvailableSlots({ timeZone, sessionId: session.sessionId });
+      const slot = findSlotByStart(slots, new Date(start));
+      if (!slot || !(await holdSlotForSession(session.sessionId, slot))) {
+        return { ok: false, error: "That slot is no longer available - call check_availability and offer another time" };
+      }
+      selectSlot(session, slot);
+      session.collectedData.offeredSlots = undefined;
+      return { ok: true, slot: toSlotOption(slot) };
+    },
+  }),
+
+  confirm_booking: defineTool({
+    description: "Book the call once the caller has confirmed their name, email and held slot are correct.",
+    args: confirmBookingArgsSchema,
+    async run(_args, turn) {
+      const data = turn.session.collectedData;
+      const missing = [
+        !data.name && "name (set_name)",
+        !data.email && "email (set_email)",
+        !data.selectedSlot && "meeting time (hold_slot)",
+      ].filter(Boolean);
+      if (missing.length > 0) {
+        return { ok: false, error: `Still missing: ${missing.join(", ")}` };
+      }
+      if (!turn.canBook) {
+        return { ok: false, error: "Read the name, meeting time and email back to the caller and wait for them to confirm first" };
+      }
+      turn.readyToBook = true;
+      return { ok: true, name: data.name, email: data.email, meetingTime: data.meetingPreference };
+    },
+  }),
+};
+
+// JSON Schema for the tool arguments, generated from the zod schemas the server validates with
+function toParameters(schema: ZodTypeAny): Record<string, unknown> {
+  const { $schema, ...parameters } = zodToJsonSchema(schema, { $refStrategy: "none" }) as Record<string, unknown>;
+  return parameters;
+}
+
+const TOOL_DEFINITIONS: ToolDefinition[] = Object.entries(TOOLS).map(([name, tool]) => ({
+  name,
+  description: tool.description,
+  parameters: toParameters(tool.args),
+}));
+
+// Bad arguments go back to the model as an error result so it can correct itself
+async function executeToolCall(call: ToolCall, turn: AgentTurn): Promise<ChatMessage> {
+  const respond = (result: ToolResult): ChatMessage => {
+    console.log(`🛠️ ${call.name}(${call.arguments}) →`, result);
+    // Keep the model on the booking flow's order after every successful call
+    if (result.ok && !turn.readyToBook) result.nextStep = describeBookingStep(deriveBookingState(turn.session.collectedData));
+    return { role: 'tool', toolCallId: call.id, content: JSON.stringify(result) };
+  };
+
+  const name = agentToolNameSchema.safeParse(call.name);
+  if (!name.success) {
+    return respond({ ok: false, error: `Unknown tool "${call.name}"` });
+  }
+  const tool = TOOLS[name.data];
+
+  let rawArgs: unknown;
+  try {
+    rawArgs = JSON.parse(call.arguments || "{}");
+  } catch {
+    return respond({ ok: false, error: "Arguments are not valid JSON" });
+  }
+
+  const args = tool.args.safeParse(rawArgs);
+  if (!args.success) {
+    return respond({ ok: false, error: fromZodError(args.error).message });
+  }
+
+  try {
+    return respond(await tool.run(args.data, turn));
+  } catch (error) {
+    console.error(`Agent tool ${call.name} failed:`, error);
+    return respond({ ok: false, error: "Something went wrong - try again" });
+  }
+}
+
+// Tell the model what has been recorded so far; tool calls aren't kept in the session history
+export function addToolContext(session: VoiceAgentSession, messagesWithContext: ChatMessage[], timeZone: string): void {
+  const data = session.collectedData;
+  const lines = [
+    `Today: ${formatSlotLabel(new Date(), timeZone).split(' at ')[0]} (${toDateKey(new Date(), timeZone)}), caller's timezone ${timeZone}`,
+    `Name: ${data.name ?? "not recorded"}`,
+    `Meeting time: ${data.meetingPreference ? `${data.meetingPreference} (held)` : "not held"}`,
+    `Email: ${data.email ?? "not recorded"}`,
+  ];
+  if (data.offeredSlots?.length && !data.selectedSlot) {
+    lines.push(`Slots you offered: ${data.offeredSlots.map(slot => `${slot.label} (start ${slot.start})`).join("; ")}`);
+  }
+
+  messagesWithContext.push({
+    role: 'system',
+    content: `${AGENT_TOOLS_PROMPT}\n\nRecorded so far:\n${lines.join("\n")}`
+  });
+}
+
+export interface AgentTurnResult extends ChatCompletion {
+  // confirm_booking succeeded during this turn
+  readyToBook: boolean;
+}
+
+// One agent turn: call the LLM with the booking tools, run whatever it calls and feed the results
+// back until it answers. With onDelta the completions are streamed as they arrive, up to the point a
+// round starts calling tools - text the model writes alongside its tool calls isn't passed on.
+// Once isCancelled returns true (the caller talked over the agent) no further tools run.
+export async function runAgentTurn(
+  session: VoiceAgentSession,
+  messages: ChatMessage[],
+  options: { timeZone: string; canBook: boolean; onDelta?: ChatDeltaHandler; isCancelled?: () => boolean }
+): Promise<AgentTurnResult> {
+  const turn: AgentTurn = { session, timeZone: options.timeZone, canBook: options.canBook, readyToBook: false };
+  const conversation = [...messages];
+
+  let completion: ChatCompletion | undefined;
+  const onDelta = options.onDelta;
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    let callingTools = false;
+    completion = onDelta
+      ? await streamChatCompletion(
+          conversation,
+          delta => { if (!callingTools) onDelta(delta); },
+          TOOL_DEFINITIONS,
+          () => { callingTools = true; }
+        )
+      : await createChatCompletion(conversation, TOOL_DEFINITIONS);
+    if (completion.toolCalls.length === 0) break;
+    if (options.isCancelled?.()) {
+      console.log(`🛑 Turn cancelled - skipping ${completion.toolCalls.length} tool call(s)`);
+      break;
+    }
+
+    conversation.push({ role: 'assistant', content: completion.content ?? '', toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      conversation.push(await executeToolCall(call, turn));
+    }
+    if (round === MAX_TOOL_ROUNDS - 1) {
+      console.warn(`⚠️ Agent still calling tools after ${MAX_TOOL_ROUNDS} rounds - giving up on this turn`);
+    }
+  }
+
+  if (completion!.toolCalls.length > 0 && !completion!.content && !options.isCancelled?.()) {
+    return { ...completion!, content: OUT_OF_ROUNDS_REPLY, readyToBook: turn.readyToBook };
+  }
+  return { ...completion!, readyToBook: turn.readyToBook };
+}
@@ -0,0 +1,312 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { isValidTimeZone, timeZoneSchema, type Booking, type SlotHold, type SlotOption } from "@shared/schema";
+import {
+  addDaysToDateKey,
+  getDateKeyWeekday,
+  parseClock,
+  toDateKey,
+  zonedTimeToUtc,
+} from "./timezone";
+import { minutesFromRequest, withinTimeRequest, type TimeRequest } from "./spokenTime";
+
+// ============================================================================
+// AVAILABILITY ENGINE - multi-day slots from per-host working hours
+// ============================================================================
+
+const clockSchema = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM");
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const workingHoursSchema = z.object({
+  start: clockSchema,
+  end: clockSchema,
+});
+
+const hostScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().email().optional(),
+  timezone: timeZoneSchema,
+  // Keyed by weekday: 0 = Sunday ... 6 = Saturday. Missing days are non-working days.
+  weeklyHours: z.record(z.enum(["0", "1", "2", "3", "4", "5", "6"]), z.array(workingHoursSchema)),
+  blackoutDates: z.array(dateKeySchema).default([]),
+});
+
+export const scheduleConfigSchema = z.object({
+  hosts: z.array(hostScheduleSchema).min(1),
+  holidays: z.array(dateKeySchema).default([]),
+  meetingDurationMinutes: z.number().int().positive().default(30),
+  bufferMinutes: z.number().int().min(0).default(0),
+  minimumNoticeMinutes: z.number().int().min(0).default(120),
+  slotIntervalMinutes: z.number().int().positive().default(30),
+  lookaheadBusinessDays: z.number().int().positive().default(5),
+});
+
+export type HostSchedule = z.infer<typeof hostScheduleSchema>;
+export type ScheduleConfig = z.infer<typeof scheduleConfigSchema>;
+
+// How long a suggested slot stays reserved for a caller (SLOT_HOLD_MINUTES, default 5)
+export const SLOT_HOLD_MS = parseInt(process.env.SLOT_HOLD_MINUTES || "5", 10) * 60 * 1000;
+
+// A booked or held meeting that blocks slots around it
+export interface BusyPeriod {
+  start: Date;
+  // null blocks every host
+  hostId: string | null;
+}
+
+export interface AvailableSlot {
+  start: Date;
+  end: Date;
+  hostId: string;
+  timeZone: string;
+  label: string;
+}
+
+const WEEKDAY_HOURS = [{ start: "09:00", end: "18:00" }];
+
+// A typo here would otherwise only surface as a RangeError in every slot computation
+function loadBookingTimeZone(): string {
+  const timeZone = process.env.BOOKING_TIMEZONE;
+  if (!timeZone) return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`BOOKING_TIMEZONE "${timeZone}" is not a valid IANA timezone (e.g. "America/New_York")`);
+  }
+  return timeZone;
+}
+
+// Default: one host, Mon-Fri 9:00-18:00 in BOOKING_TIMEZONE (or the server timezone)
+const DEFAULT_SCHEDULE: ScheduleConfig = scheduleConfigSchema.parse({
+  hosts: [{
+    id: "default",
+    name: "SleeckOS Team",
+    timezone: loadBookingTimeZone(),
+    weeklyHours: {
+      "1": WEEKDAY_HOURS,
+      "2": WEEKDAY_HOURS,
+      "3": WEEKDAY_HOURS,
+      "4": WEEKDAY_HOURS,
+      "5": WEEKDAY_HOURS,
+    },
+  }],
+});
+
+// Schedule override as JSON in BOOKING_SCHEDULE (validated, falls back to the default)
+function loadScheduleConfig(): ScheduleConfig {
+  const raw = process.env.BOOKING_SCHEDULE;
+  if (!raw) return DEFAULT_SCHEDULE;
+
+  try {
+    return scheduleConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Invalid BOOKING_SCHEDULE, using default schedule:', error);
+    return DEFAULT_SCHEDULE;
+  }
+}
+
+export const scheduleConfig = loadScheduleConfig();
+
+// Timezone used when the caller didn't report one
+export const DEFAULT_TIMEZONE = scheduleConfig.hosts[0].timezone;
+
+// Host assigned when a booking doesn't come from a negotiated slot
+export const DEFAULT_HOST_ID = scheduleConfig.hosts[0].id;
+
+// A host's meetings starting closer together than this overlap (duration plus buffer), the same
+// rule conflictsWithBusy applies when offering slots
+export const SLOT_CONFLICT_MS = (scheduleConfig.meetingDurationMinutes + scheduleConfig.bufferMinutes) * 60000;
+
+export function getHost(hostId: string): HostSchedule | undefined {
+  return scheduleConfig.hosts.find(host => host.id === hostId);
+}
+
+// Spoken label for a slot, e.g. "Tuesday, October 21 at 2:30 PM"
+export function formatSlotLabel(start: Date, timeZone: string): string {
+  const day = start.toLocaleDateString('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' });
+  const time = start.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit', hour12: true });
+  return `${day} at ${time}`;
+}
+
+function isWorkingDay(config: ScheduleConfig, host: HostSchedule, dateKey: string): boolean {
+  if (config.holidays.includes(dateKey) || host.blackoutDates.includes(dateKey)) return false;
+  const hours = host.weeklyHours[String(getDateKeyWeekday(dateKey)) as keyof HostSchedule['weeklyHours']];
+  return !!hours && hours.length > 0;
+}
+
+// Overlap check including the buffer on both sides of each busy period
+function conflictsWithBusy(
+  config: ScheduleConfig,
+  start: Date,
+  end: Date,
+  hostId: string,
+  busy: BusyPeriod[]
+): boolean {
+  const bufferMs = config.bufferMinutes * 60000;
+  const durationMs = config.meetingDurationMinutes * 60000;
+
+  return busy.some(period => {
+    if (period.hostId && period.hostId !== hostId) return false;
+    const busyStart = period.start.getTime();
+    const busyEnd = busyStart + durationMs;
+    return start.getTime() < busyEnd + bufferMs && busyStart < end.getTime() + bufferMs;
+  });
+}
+
+export function bookingsToBusy(bookings: Booking[]): BusyPeriod[] {
+  return bookings.map(booking => ({ start: booking.meetingTime, hostId: booking.hostId }));
+}
+
+// Pure slot computation - unit-testable without storage
+export function computeAvailableSlots(
+  config: ScheduleConfig,
+  busy: BusyPeriod[],
+  now: Date = new Date(),
+  businessDays: number = config.lookaheadBusinessDays
+): AvailableSlot[] {
+  const earliestStart = now.getTime() + config.minimumNoticeMinutes * 60000;
+  const durationMs = config.meetingDurationMinutes * 60000;
+  const slotsByStart = new Map<number, AvailableSlot>();
+
+  for (const host of config.hosts) {
+    let dateKey = toDateKey(now, host.timezone);
+    let daysFound = 0;
+
+    // Scan forward until we've covered enough working days (bounded to avoid runaway loops)
+    for (let scanned = 0; daysFound < businessDays && scanned < businessDays * 7 + 14; scanned++) {
+      if (isWorkingDay(config, host, dateKey)) {
+        let dayHasSlots = false;
+        const weekday = String(getDateKeyWeekday(dateKey)) as keyof HostSchedule['weeklyHours'];
+
+        for (const window of host.weeklyHours[weekday] || []) {
+          const windowEnd = parseClock(window.end);
+          for (let minute = parseClock(window.start); minute + config.meetingDurationMinutes <= windowEnd; minute += config.slotIntervalMinutes) {
+            const start = zonedTimeToUtc(dateKey, Math.floor(minute / 60), minute % 60, host.timezone);
+            const end = new Date(start.getTime() + durationMs);
+
+            if (start.getTime() < earliestStart) continue;
+            dayHasSlots = true;
+            if (slotsByStart.has(start.getTime())) continue;
+            if (conflictsWithBusy(config, start, end, host.id, busy)) continue;
+
+            slotsByStart.set(start.getTime(), {
+              start,
+              end,
+              hostId: host.id,
+              timeZone: host.timezone,
+              label: formatSlotLabel(start, host.timezone),
+            });
+          }
+        }
+
+        // A day that is already entirely inside the notice window doesn't count
+        if (dayHasSlots) daysFound++;
+      }
+      dateKey = addDaysToDateKey(dateKey, 1);
+    }
+  }
+
+  return Array.from(slotsByStart.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Available slots across the next N business days, based on current bookings and other callers' holds.
+// Labels are spoken in options.timeZone (the caller's timezone) when given.
+export async function getAvailableSlots(
+  options: { now?: Date; businessDays?: number; timeZone?: string; sessionId?: string } = {}
+): Promise<AvailableSlot[]> {
+  const now = options.now ?? new Date();
+  const businessDays = options.businessDays ?? scheduleConfig.lookaheadBusinessDays;
+
+  // Weekends and holidays may sit in between, so look a little further ahead for bookings
+  const horizon = new Date(now.getTime() + (businessDays * 2 + 7) * 24 * 60 * 60 * 1000);
+  let busy: BusyPeriod[] = [];
+  try {
+    const [bookings, holds] = await Promise.all([
+      storage.getBookingsBetween(now, horizon),
+      storage.getActiveSlotHolds(now, horizon)
+    ]);
+    busy = [
+      ...bookingsToBusy(bookings),
+      // A caller's own hold stays available to them
+      ...holds
+        .filter((hold: SlotHold) => hold.sessionId !== options.sessionId)
+        .map((hold: SlotHold) => ({ start: hold.slotStart, hostId: hold.hostId }))
+    ];
+  } catch (error) {
+    console.warn('Failed to get booked slots, assuming all slots available:', error);
+  }
+
+  const slots = computeAvailableSlots(scheduleConfig, busy, now, businessDays);
+  return options.timeZone ? slots.map(slot => ({ ...slot, label: formatSlotLabel(slot.start, options.timeZone!) })) : slots;
+}
+
+// Reserve a slot for a caller for SLOT_HOLD_MS; false if someone else got it first
+export async function holdSlotForSession(sessionId: string, slot: AvailableSlot): Promise<boolean> {
+  const hold = await storage.holdSlot({
+    sessionId,
+    hostId: slot.hostId,
+    slotStart: slot.start,
+    expiresAt: new Date(Date.now() + SLOT_HOLD_MS)
+  }, SLOT_CONFLICT_MS);
+  return !!hold;
+}
+
+export function toSlotOption(slot: AvailableSlot): SlotOption {
+  return { start: slot.start.toISOString(), end: slot.end.toISOString(), label: slot.label };
+}
+
+export function findSlotByStart(slots: AvailableSlot[], start: Date): AvailableSlot | undefined {
+  return slots.find(slot => slot.start.getTime() === start.getTime());
+}
+
+// Requests for a time only consider slots this close to it
+const MAX_MINUTES_FROM_REQUEST = 120;
+
+// Open slots that fit what the caller asked for, best first: closest to the requested time, then
+// on the day already being discussed, then soonest
+export function rankSlotsForRequest(
+  slots: AvailableSlot[],
+  request: TimeRequest,
+  timeZone: string,
+  preferredDay?: Date
+): AvailableSlot[] {
+  const preferredKey = preferredDay ? toDateKey(preferredDay, timeZone) : undefined;
+  const rank = (slot: AvailableSlot) => ({
+    distance: minutesFromRequest(slot.start, request, timeZone),
+    otherDay: toDateKey(slot.start, timeZone) === preferredKey ? 0 : 1,
+  });
+
+  return slots
+    .filter(slot => withinTimeRequest(slot.start, request, timeZone))
+    .map(slot => ({ slot, ...rank(slot) }))
+    .filter(ranked => ranked.distance <= MAX_MINUTES_FROM_REQUEST)
+    // Stable sort keeps slots in chronological order otherwise
+    .sort((a, b) => a.distance - b.distance || a.otherDay - b.otherDay)
+    .map(ranked => ranked.slot);
+}
+
+export function findClosestSlot(
+  slots: AvailableSlot[],
+  request: TimeRequest,
+  timeZone: string,
+  preferredDay?: Date
+): AvailableSlot | undefined {
+  return rankSlotsForRequest(slots, request, timeZone, preferredDay)[0];
+}
+
+// Compact per-day summary for the LLM, e.g. "Monday, October 20: 9:00 AM, 9:30 AM, ..."
+export function summarizeSlots(slots: AvailableSlot[], maxDays = 3, maxPerDay = 6): string {
+  const byDay = new Map<string, string[]>();
+  for (const slot of slots) {
+    const [day, time] = slot.label.split(' at ');
+    if (!byDay.has(day)) {
+      if (byDay.size >= maxDays) break;
+      byDay.set(day, []);
+    }
+    const times = byDay.get(day)!;
+    if (times.length < maxPerDay) times.push(time);
+  }
+
+  return Array.from(byDay.entries())
+    .map(([day, times]) => `${day}: ${times.join(', ')}`)
+    .join('; ');
+}
@@ -0,0 +1,84 @@
+import type { VoiceAgentSession } from "@shared/schema";
+
+// ============================================================================
+// BARGE-IN - the caller talks over the agent
+// ============================================================================
+// The client stops playback and sends a WebSocket "cancel" for the turn it was playing, with the
+// part of the reply the caller actually heard. A turn still running stops synthesizing audio, runs
+// no more tools, leaves the booking state alone and saves the shortened reply; a finished turn has
+// its saved reply shortened afterwards.
+
+export interface TurnRecord {
+  messageId: string;
+  cancelled: boolean;
+  heardText: string;
+  // Position of the turn's reply in session.messages once it is saved
+  replyIndex?: number;
+}
+
+// Latest WebSocket turn per session
+const turns = new Map<string, TurnRecord>();
+
+export function beginTurn(sessionId: string, messageId: string): TurnRecord {
+  const turn: TurnRecord = { messageId, cancelled: false, heardText: '' };
+  turns.set(sessionId, turn);
+  return turn;
+}
+
+// The turn's reply was just added to the session history; shorten it if the caller already cut in
+export function recordReply(session: VoiceAgentSession, turn: TurnRecord | undefined): void {
+  if (!turn) return;
+  turn.replyIndex = session.messages.length - 1;
+  if (turn.cancelled) truncateReply(session, turn.replyIndex, turn.heardText);
+}
+
+// Marks the session's latest turn cancelled, if it is the one the caller interrupted. A turn with a
+// replyIndex already saved its reply, which the caller of this has to shorten.
+export function cancelTurn(sessionId: string, messageId: string, heardText: string): TurnRecord | undefined {
+  const turn = turns.get(sessionId);
+  if (!turn || turn.messageId !== messageId || turn.cancelled) return undefined;
+  turn.cancelled = true;
+  turn.heardText = heardText;
+  return turn;
+}
+
+export function forgetTurns(sessionIds: Iterable<string>): void {
+  for (const sessionId of Array.from(sessionIds)) turns.delete(sessionId);
+}
+
+// What the caller heard of the reply. heardText comes from the client, so it is only used when the
+// reply starts with it; otherwise as many words of the reply as the client says were heard.
+function heardPart(replyText: string, heardText: string): string {
+  const reply = replyText.trim().split(/\s+/).filter(Boolean);
+  const heard = heardText.trim().split(/\s+/).filter(Boolean);
+  if (heard.length === 0) return '';
+  const heardJoined = heard.join(' ');
+  const replyJoined = reply.join(' ');
+  return replyJoined.startsWith(heardJoined) ? heardJoined : reply.slice(0, heard.length).join(' ');
+}
+
+// Keep only what the caller heard of an assistant reply, so the LLM doesn't assume they heard the
+// rest. A reply they heard none of is dropped.
+export function truncateReply(session: VoiceAgentSession, index: number, heardText: string): void {
+  const message = session.messages[index];
+  if (!message || message.role !== 'assistant') return;
+
+  let reply: Record<string, unknown> = {};
+  let replyText = message.content;
+  try {
+    const jsonStart = message.content.indexOf('{');
+    const jsonEnd = message.content.lastIndexOf('}');
+    reply = JSON.parse(message.content.slice(jsonStart, jsonEnd + 1));
+    replyText = typeof reply.replyText === 'string' ? reply.replyText : '';
+  } catch {
+    // Not JSON - the fallback reply was plain text
+  }
+
+  const heard = heardPart(replyText, heardText);
+  if (!heard) {
+    session.messages.splice(index, 1);
+    return;
+  }
+  session.messages[index] = { role: 'assistant', content: JSON.stringify({ ...reply, replyText: heard, interrupted: true }) };
+  console.log(`✂️ Reply in session ${session.sessionId} cut off after: "${heard.substring(0, 50)}"`);
+}
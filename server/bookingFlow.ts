@@ -0,0 +1,85 @@
+import type { BookingFlow, BookingFlowState, VoiceAgentCollectedData } from "@shared/schema";
+
+// ============================================================================
+// BOOKING FLOW - deterministic state machine for new bookings
+// greeting → name → slot → email → confirmation → booked, or handoff to a human
+// ============================================================================
+// Pure functions of the collected data and the caller's words: no storage, no LLM.
+
+// Turns spent on one step before the caller is handed to a human
+export const MAX_TURNS_IN_STATE = 5;
+
+// Session event recorded when a conversation is handed off
+export const SESSION_HANDOFF = "session_handoff";
+
+const HANDOFF_PATTERN = /\b(speak|talk|chat)\s+(to|with)\s+(a\s+|an\s+)?(real\s+)?(human|person|someone|somebody|representative|operator)\b/i;
+
+// askFor values the LLM may use in each state; the first is the canonical one
+const EXPECTED_ASK_FOR: Record<BookingFlowState, Array<string | null>> = {
+  greeting: ["name"],
+  name: ["name"],
+  slot: ["meeting_preference", "user_preferred_time"],
+  email: ["email"],
+  confirmation: ["confirmation"],
+  booked: [null],
+  handoff: [null],
+};
+
+const STEP_INSTRUCTIONS: Record<BookingFlowState, string> = {
+  greeting: 'Greet the caller and ask for their name (askFor "name").',
+  name: 'Ask for the caller\'s name (askFor "name").',
+  slot: 'Agree on a meeting time with the caller (askFor "meeting_preference").',
+  email: 'Ask for the caller\'s email address (askFor "email").',
+  confirmation: 'Read back the name, meeting time and email and ask the caller to confirm (askFor "confirmation"). Only set readyToBook once they confirm.',
+  booked: 'The call is booked. Answer any last questions and say goodbye (askFor null).',
+  handoff: 'Stop collecting details. Apologize for the trouble and tell the caller a member of the team will follow up with them (askFor null).',
+};
+
+type BookingFlowData = Pick<VoiceAgentCollectedData, "name" | "email" | "selectedSlot" | "bookingId">;
+
+export function createBookingFlow(): BookingFlow {
+  return { state: "greeting", turnsInState: 0 };
+}
+
+// The step the collected data puts the caller in. Losing data (e.g. the held slot was
+// taken by someone else) moves the caller back.
+export function deriveBookingState(data: BookingFlowData): BookingFlowState {
+  if (data.bookingId) return "booked";
+  if (!data.name) return "name";
+  if (!data.selectedSlot) return "slot";
+  if (!data.email) return "email";
+  return "confirmation";
+}
+
+export function wantsHuman(text: string): boolean {
+  return HANDOFF_PATTERN.test(text);
+}
+
+// State after a completed turn. booked and handoff are final; a caller who asks for a
+// person or stays on one step for MAX_TURNS_IN_STATE turns is handed off.
+export function advanceBookingFlow(flow: BookingFlow, data: BookingFlowData, callerText = ""): BookingFlow {
+  if (flow.state === "booked" || flow.state === "handoff") return flow;
+
+  const next = deriveBookingState(data);
+  if (next === "booked") return { state: "booked", turnsInState: 0 };
+  if (wantsHuman(callerText)) return { state: "handoff", turnsInState: 0 };
+  if (next !== flow.state) return { state: next, turnsInState: 0 };
+
+  const turnsInState = flow.turnsInState + 1;
+  return turnsInState >= MAX_TURNS_IN_STATE ? { state: "handoff", turnsInState: 0 } : { state: next, turnsInState };
+}
+
+// The LLM's askFor if it fits the state, otherwise the state's canonical askFor
+export function checkAskFor(state: BookingFlowState, askFor: string | null): { valid: boolean; askFor: string | null } {
+  const expected = EXPECTED_ASK_FOR[state];
+  return expected.includes(askFor) ? { valid: true, askFor } : { valid: false, askFor: expected[0] };
+}
+
+// A booking may only be triggered once every detail has been collected
+export function canBook(state: BookingFlowState): boolean {
+  return state === "confirmation";
+}
+
+export function describeBookingStep(state: BookingFlowState): string {
+  return `Current step: ${STEP_INSTRUCTIONS[state]}`;
+}
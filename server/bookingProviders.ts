@@ -0,0 +1,154 @@
+import { createHmac } from "crypto";
+import { storage } from "./storage";
+import { formatSlotLabel, SLOT_CONFLICT_MS } from "./availability";
+import { notifyBookingCancelled, notifyBookingConfirmed, notifyBookingRescheduled } from "./notifications";
+import type { Booking, BookingProviderName, InsertBooking } from "@shared/schema";
+
+// ============================================================================
+// BOOKING PROVIDERS - where confirmed bookings go (native, Calendly link, webhook)
+// ============================================================================
+
+export type BookingEvent = "booking.created" | "booking.rescheduled" | "booking.cancelled";
+
+export interface BookingProvider {
+  name: BookingProviderName;
+  // Link for generic "book a call" buttons; null means the site's own booking form
+  getSchedulingUrl(): string | null;
+  // Where to send the caller after booking (e.g. a prefilled Calendly page); null to stay on the site
+  getRedirectUrl(booking: Booking): string | null;
+  // Turn the caller's hold into a booking; undefined if the slot was taken
+  createBooking(sessionId: string | undefined, booking: InsertBooking): Promise<Booking | undefined>;
+  // undefined if the new slot was taken
+  rescheduleBooking(booking: Booking, meetingTime: Date, hostId: string, timezone?: string): Promise<Booking | undefined>;
+  cancelBooking(booking: Booking): Promise<Booking | undefined>;
+}
+
+// Every provider keeps the bookings table as the source of truth so availability, holds,
+// the management endpoints and email notifications work the same regardless of where bookings are sent
+function createNativeProvider(): BookingProvider {
+  return {
+    name: "native",
+    getSchedulingUrl: () => null,
+    getRedirectUrl: () => null,
+    async createBooking(sessionId, insertBooking) {
+      const booking = await storage.confirmSlotBooking(sessionId, insertBooking, SLOT_CONFLICT_MS);
+      if (booking) await notifyBookingConfirmed(booking);
+      return booking;
+    },
+    async rescheduleBooking(booking, meetingTime, hostId, timezone) {
+      const updated = await storage.rescheduleBooking(booking.id, meetingTime, hostId, SLOT_CONFLICT_MS, timezone);
+      if (updated) await notifyBookingRescheduled(updated);
+      return updated;
+    },
+    async cancelBooking(booking) {
+      if (booking.status === "cancelled") return booking;
+      const cancelled = await storage.cancelBooking(booking.id);
+      if (cancelled) await notifyBookingCancelled(cancelled);
+      return cancelled;
+    },
+  };
+}
+
+// Calendly: store the booking, then hand the caller a prefilled Calendly link to finish there
+function createCalendlyProvider(baseLink: string): BookingProvider {
+  const separator = baseLink.includes('?') ? '&' : '?';
+  return {
+    ...createNativeProvider(),
+    name: "calendly",
+    getSchedulingUrl: () => baseLink,
+    getRedirectUrl: (booking) => {
+      const formattedTime = formatSlotLabel(booking.meetingTime, booking.timezone || "UTC");
+      return `${baseLink}${separator}name=${encodeURIComponent(booking.name)}&email=${encodeURIComponent(booking.email)}&time=${encodeURIComponent(formattedTime)}`;
+    },
+  };
+}
+
+// Generic webhook: store the booking and POST every change to BOOKING_WEBHOOK_URL (e.g. n8n/Zapier).
+// Payloads are signed with BOOKING_WEBHOOK_SECRET when set (X-Booking-Signature: sha256=<hex>).
+function createWebhookProvider(webhookUrl: string, secret?: string, schedulingUrl?: string): BookingProvider {
+  const native = createNativeProvider();
+
+  async function deliver(event: BookingEvent, booking: Booking): Promise<void> {
+    const body = JSON.stringify({
+      event,
+      booking: {
+        id: booking.id,
+        name: booking.name,
+        email: booking.email,
+        meetingTime: booking.meetingTime.toISOString(),
+        timezone: booking.timezone,
+        hostId: booking.hostId,
+        status: booking.status,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (secret) {
+      headers["X-Booking-Signature"] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    // The booking is already stored - a failed delivery is logged, not surfaced to the caller
+    try {
+      const response = await fetch(webhookUrl, { method: "POST", headers, body, signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        console.error(`Booking webhook ${event} failed: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error(`Booking webhook ${event} failed:`, error);
+    }
+  }
+
+  return {
+    ...native,
+    name: "webhook",
+    getSchedulingUrl: () => schedulingUrl || null,
+    async createBooking(sessionId, insertBooking) {
+      const booking = await native.createBooking(sessionId, insertBooking);
+      if (booking) await deliver("booking.created", booking);
+      return booking;
+    },
+    async rescheduleBooking(booking, meetingTime, hostId, timezone) {
+      const updated = await native.rescheduleBooking(booking, meetingTime, hostId, timezone);
+      if (updated) await deliver("booking.rescheduled", updated);
+      return updated;
+    },
+    async cancelBooking(booking) {
+      if (booking.status === "cancelled") return booking;
+      const cancelled = await native.cancelBooking(booking);
+      if (cancelled) await deliver("booking.cancelled", cancelled);
+      return cancelled;
+    },
+  };
+}
+
+// BOOKING_PROVIDER selects the provider (native | calendly | webhook). Without it, Calendly is
+// used when CALENDLY_BASE_LINK is set, otherwise native. Misconfiguration falls back to native.
+function loadBookingProvider(): BookingProvider {
+  const calendlyLink = process.env.CALENDLY_BASE_LINK;
+  const configured = process.env.BOOKING_PROVIDER || (calendlyLink ? "calendly" : "native");
+
+  switch (configured) {
+    case "native":
+      return createNativeProvider();
+    case "calendly":
+      if (calendlyLink) return createCalendlyProvider(calendlyLink);
+      console.error('BOOKING_PROVIDER=calendly requires CALENDLY_BASE_LINK, using native bookings');
+      return createNativeProvider();
+    case "webhook":
+      if (process.env.BOOKING_WEBHOOK_URL) {
+        return createWebhookProvider(
+          process.env.BOOKING_WEBHOOK_URL,
+          process.env.BOOKING_WEBHOOK_SECRET,
+          process.env.BOOKING_SCHEDULING_URL
+        );
+      }
+      console.error('BOOKING_PROVIDER=webhook requires BOOKING_WEBHOOK_URL, using native bookings');
+      return createNativeProvider();
+    default:
+      console.error(`Unknown BOOKING_PROVIDER "${configured}", using native bookings`);
+      return createNativeProvider();
+  }
+}
+
+export const bookingProvider = loadBookingProvider();
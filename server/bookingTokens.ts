@@ -0,0 +1,32 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// ============================================================================
+// BOOKING MANAGEMENT TOKENS - signed tokens so callers can manage their booking without an account
+// ============================================================================
+
+function loadSecret(): string {
+  if (process.env.BOOKING_TOKEN_SECRET) {
+    return process.env.BOOKING_TOKEN_SECRET;
+  }
+  console.warn('⚠️ BOOKING_TOKEN_SECRET not set - management tokens will stop working after a restart');
+  return randomBytes(32).toString('hex');
+}
+
+const TOKEN_SECRET = loadSecret();
+
+function sign(bookingId: string): string {
+  return createHmac('sha256', TOKEN_SECRET).update(`booking:${bookingId}`).digest('base64url');
+}
+
+// Token returned from /api/book and required by the /api/bookings/:id endpoints
+export function createManagementToken(bookingId: string): string {
+  return sign(bookingId);
+}
+
+export function verifyManagementToken(bookingId: string, token: string | undefined): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(sign(bookingId));
+  const provided = Buffer.from(token);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
@@ -0,0 +1,109 @@
+import type { NotificationType } from "@shared/schema";
+
+// ============================================================================
+// EMAIL TEMPLATES - booking notification copy with {{placeholder}} substitution
+// ============================================================================
+
+export interface EmailTemplateVars {
+  name: string;
+  meetingTime: string;
+  hostName: string;
+  // Pre-rendered optional lines ("" when not applicable)
+  joinLine: string;
+  calendarLine: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailTemplate {
+  subject: string;
+  // Plain-text body; paragraphs separated by blank lines become <p> in the HTML version
+  body: string;
+}
+
+const SIGNATURE = "Talk soon,\n{{hostName}}";
+
+const TEMPLATES: Record<NotificationType, EmailTemplate> = {
+  confirmation: {
+    subject: "Your call is confirmed for {{meetingTime}}",
+    body: `Hi {{name}},
+
+Your call with {{hostName}} is confirmed for {{meetingTime}}.
+{{joinLine}}
+The calendar invite is attached. {{calendarLine}}
+
+${SIGNATURE}`,
+  },
+  reschedule: {
+    subject: "Your call has moved to {{meetingTime}}",
+    body: `Hi {{name}},
+
+Your call with {{hostName}} has been moved to {{meetingTime}}.
+{{joinLine}}
+The updated calendar invite is attached. {{calendarLine}}
+
+${SIGNATURE}`,
+  },
+  reminder_24h: {
+    subject: "Reminder: your call on {{meetingTime}}",
+    body: `Hi {{name}},
+
+Just a reminder that your call with {{hostName}} is coming up on {{meetingTime}}.
+{{joinLine}}
+${SIGNATURE}`,
+  },
+  reminder_1h: {
+    subject: "Starting soon: your call on {{meetingTime}}",
+    body: `Hi {{name}},
+
+Your call with {{hostName}} starts in about an hour ({{meetingTime}}).
+{{joinLine}}
+${SIGNATURE}`,
+  },
+  cancellation: {
+    subject: "Your call on {{meetingTime}} has been cancelled",
+    body: `Hi {{name}},
+
+Your call with {{hostName}} on {{meetingTime}} has been cancelled. If that wasn't intended, just book a new time on our site.
+
+${SIGNATURE}`,
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function fill(template: string, vars: EmailTemplateVars, escape: (value: string) => string): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    key in vars ? escape(vars[key as keyof EmailTemplateVars]) : match
+  );
+}
+
+export function renderEmail(type: NotificationType, vars: EmailTemplateVars): RenderedEmail {
+  const template = TEMPLATES[type];
+  // Empty optional lines leave blank lines behind - collapse them
+  const text = fill(template.body, vars, value => value)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  const paragraphs = fill(template.body, vars, escapeHtml)
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`);
+
+  return {
+    subject: fill(template.subject, vars, value => value),
+    text,
+    html: `<div style="font-family: Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #111">${paragraphs.join("")}</div>`,
+  };
+}
@@ -0,0 +1,110 @@
+import type { Booking } from "@shared/schema";
+import { getHost, scheduleConfig } from "./availability";
+
+// ============================================================================
+// ICS CALENDAR INVITES - RFC 5545 event for a booking
+// ============================================================================
+
+const PRODID = "-//SleeckOS//Voice Agent Booking//EN";
+const UID_DOMAIN = process.env.ICS_UID_DOMAIN || "sleeckos.com";
+const ORGANIZER_NAME = process.env.BOOKING_ORGANIZER_NAME || "SleeckOS Team";
+const ORGANIZER_EMAIL = process.env.BOOKING_ORGANIZER_EMAIL || "bookings@sleeckos.com";
+const MEETING_URL = process.env.BOOKING_MEETING_URL;
+
+export interface CalendarInvite {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+// 20261021T143000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Quoted parameter values can't contain double quotes (RFC 5545 3.2)
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+// Fold lines longer than 75 octets with CRLF + space (RFC 5545 3.1), never splitting a UTF-8 character
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+      // Continuation lines start with a space, which counts towards the limit
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+export function generateBookingICS(booking: Booking): string {
+  const host = booking.hostId ? getHost(booking.hostId) : undefined;
+  const organizerName = host?.name || ORGANIZER_NAME;
+  const organizerEmail = host?.email || ORGANIZER_EMAIL;
+  const cancelled = booking.status === "cancelled";
+
+  const start = booking.meetingTime;
+  const end = new Date(start.getTime() + scheduleConfig.meetingDurationMinutes * 60000);
+  const description = [
+    `Call with ${organizerName} booked through the SleeckOS voice agent.`,
+    booking.timezone ? `Your timezone: ${booking.timezone}` : undefined,
+    MEETING_URL ? `Join: ${MEETING_URL}` : undefined,
+  ].filter(Boolean).join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${cancelled ? "CANCEL" : "REQUEST"}`,
+    "BEGIN:VEVENT",
+    `UID:${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    // Reschedules and cancellations carry a higher SEQUENCE so calendar clients update the existing event
+    `SEQUENCE:${booking.sequence}`,
+    `SUMMARY:${escapeText(`Call with ${organizerName}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    MEETING_URL ? `LOCATION:${escapeText(MEETING_URL)}` : undefined,
+    `ORGANIZER;CN=${quoteParam(organizerName)}:mailto:${organizerEmail}`,
+    `ATTENDEE;CN=${quoteParam(booking.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${booking.email}`,
+    `STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].filter((line): line is string => line !== undefined);
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Download/attachment form of the invite (used by the .ics endpoint and confirmation emails)
+export function buildCalendarInvite(booking: Booking): CalendarInvite {
+  const cancelled = booking.status === "cancelled";
+  return {
+    filename: cancelled ? "sleeckos-booking-cancelled.ics" : "sleeckos-booking.ics",
+    contentType: `text/calendar; charset=utf-8; method=${cancelled ? "CANCEL" : "REQUEST"}`,
+    content: generateBookingICS(booking),
+  };
+}
@@ -0,0 +1,543 @@
+import { z } from "zod";
+import OpenAI from "openai";
+import Groq from "groq-sdk";
+import Anthropic from "@anthropic-ai/sdk";
+
+// ============================================================================
+// LLM PROVIDER REGISTRY - ordered fallback chain with per-provider retries and circuit breakers
+// ============================================================================
+
+const circuitBreakerSchema = z.object({
+  // Consecutive failed calls before the provider is skipped
+  failureThreshold: z.number().int().positive().default(3),
+  // How long an open circuit skips the provider before one trial call is let through
+  cooldownMs: z.number().int().positive().default(30000),
+});
+
+const providerConfigSchema = z.object({
+  id: z.string(),
+  type: z.enum(["groq", "openai", "anthropic", "openai-compatible"]),
+  model: z.string(),
+  // Required for openai-compatible (e.g. http://localhost:11434/v1 for Ollama)
+  baseUrl: z.string().url().optional(),
+  // Name of the env var holding the API key (defaults per type, e.g. GROQ_API_KEY)
+  apiKeyEnv: z.string().optional(),
+  timeoutMs: z.number().int().positive().default(10000),
+  // Retries after the first attempt, with exponential backoff
+  maxRetries: z.number().int().min(0).default(1),
+  temperature: z.number().min(0).max(2).default(0.7),
+  maxTokens: z.number().int().positive().default(200),
+  // Ask for a JSON object response (not every local server supports it)
+  jsonMode: z.boolean().default(true),
+  circuitBreaker: circuitBreakerSchema.default({}),
+});
+
+export const llmConfigSchema = z.array(providerConfigSchema).min(1);
+
+export type LLMProviderConfig = z.infer<typeof providerConfigSchema>;
+export type LLMProviderType = LLMProviderConfig["type"];
+
+// A function call requested by the model; arguments is the raw JSON string it produced
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// A function the model may call; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ChatCompletion {
+  content: string | null | undefined;
+  provider: string;
+  // Empty unless tools were offered and the model called some
+  toolCalls: ToolCall[];
+}
+
+export interface LLMProviderStatus {
+  id: string;
+  type: LLMProviderType;
+  model: string;
+  circuit: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  openUntil: string | null;
+}
+
+// Receives each text delta as it arrives from a streaming completion
+export type ChatDeltaHandler = (delta: string) => void;
+// Called as each tool call starts arriving in a streaming completion
+export type ToolCallStartHandler = () => void;
+
+interface ProviderReply {
+  content: string | null | undefined;
+  toolCalls: ToolCall[];
+}
+
+interface LLMProvider {
+  config: LLMProviderConfig;
+  complete(messages: ChatMessage[], tools?: ToolDefinition[]): Promise<ProviderReply>;
+  // Streams text deltas to onDelta and resolves with the full reply
+  stream(messages: ChatMessage[], onDelta: ChatDeltaHandler, tools?: ToolDefinition[], onToolCall?: ToolCallStartHandler): Promise<ProviderReply>;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number | null;
+  trialInFlight: boolean;
+}
+
+const DEFAULT_API_KEY_ENV: Record<LLMProviderType, string | undefined> = {
+  groq: "GROQ_API_KEY",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  // Local servers usually don't need a key
+  "openai-compatible": undefined,
+};
+
+// Default chain: Groq (fast) with OpenAI as fallback
+const DEFAULT_LLM_CONFIG: LLMProviderConfig[] = llmConfigSchema.parse([
+  { id: "groq", type: "groq", model: "llama-3.1-8b-instant" },
+  { id: "openai", type: "openai", model: "gpt-4o-mini" },
+]);
+
+// Provider chain as JSON in LLM_PROVIDERS (validated, falls back to the default chain)
+function loadLLMConfig(): LLMProviderConfig[] {
+  const raw = process.env.LLM_PROVIDERS;
+  if (!raw) return DEFAULT_LLM_CONFIG;
+
+  try {
+    return llmConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Invalid LLM_PROVIDERS, using default provider chain:', error);
+    return DEFAULT_LLM_CONFIG;
+  }
+}
+
+// ============================================================================
+// ADAPTERS - one per API flavour
+// ============================================================================
+
+type OpenAIStyleToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+
+type OpenAIStyleMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIStyleToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatCompletionParams {
+  model: string;
+  messages: OpenAIStyleMessage[];
+  temperature: number;
+  max_tokens: number;
+  response_format?: { type: "json_object" };
+  tools?: Array<{ type: "function"; function: ToolDefinition }>;
+}
+
+// Groq, OpenAI and local servers share the chat.completions API shape
+interface ChatCompletionsAPI {
+  create(params: ChatCompletionParams): Promise<ProviderReply>;
+  stream(params: ChatCompletionParams, onDelta: ChatDeltaHandler, onToolCall?: ToolCallStartHandler): Promise<ProviderReply>;
+}
+
+function toOpenAIStyleMessage(message: ChatMessage): OpenAIStyleMessage {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    case 'assistant':
+      return message.toolCalls?.length
+        ? {
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({ id: call.id, type: "function", function: { name: call.name, arguments: call.arguments } })),
+          }
+        : { role: 'assistant', content: message.content };
+    case 'system':
+      return { role: 'system', content: message.content };
+    case 'user':
+      return { role: 'user', content: message.content };
+  }
+}
+
+function createOpenAIStyleProvider(config: LLMProviderConfig, api: ChatCompletionsAPI): LLMProvider {
+  const toParams = (messages: ChatMessage[], tools?: ToolDefinition[]): ChatCompletionParams => ({
+    model: config.model,
+    messages: messages.map(toOpenAIStyleMessage),
+    temperature: config.temperature,
+    max_tokens: config.maxTokens,
+    // Not every server accepts JSON mode together with tools - with tools the prompt alone asks for JSON
+    ...(config.jsonMode && !tools?.length ? { response_format: { type: "json_object" as const } } : {}),
+    ...(tools?.length ? { tools: tools.map(tool => ({ type: "function" as const, function: tool })) } : {}),
+  });
+
+  return {
+    config,
+    complete: (messages, tools) => api.create(toParams(messages, tools)),
+    stream: (messages, onDelta, tools, onToolCall) => api.stream(toParams(messages, tools), onDelta, onToolCall),
+  };
+}
+
+interface OpenAIStyleResponse {
+  choices: Array<{
+    message?: {
+      content?: string | null;
+      // Only function calls are used; other call types (e.g. OpenAI custom tools) have no function
+      tool_calls?: Array<{ id: string; function?: { name: string; arguments: string } }>;
+    };
+  }>;
+}
+
+interface OpenAIStyleChunk {
+  choices: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+}
+
+function toReply(response: OpenAIStyleResponse): ProviderReply {
+  const message = response.choices[0]?.message;
+  return {
+    content: message?.content,
+    toolCalls: (message?.tool_calls ?? []).flatMap(call =>
+      call.function ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }] : []
+    ),
+  };
+}
+
+// Collect a stream of chat.completion chunks, forwarding each text delta. Tool calls arrive
+// in pieces keyed by index and are assembled as they come.
+async function collectDeltas(chunks: AsyncIterable<OpenAIStyleChunk>, onDelta: ChatDeltaHandler, onToolCall?: ToolCallStartHandler): Promise<ProviderReply> {
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+  for await (const chunk of chunks) {
+    const delta = chunk.choices[0]?.delta;
+    if (delta?.content) {
+      content += delta.content;
+      onDelta(delta.content);
+    }
+    for (const part of delta?.tool_calls ?? []) {
+      if (!toolCalls[part.index]) onToolCall?.();
+      const call = toolCalls[part.index] ??= { id: '', name: '', arguments: '' };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.name += part.function.name;
+      if (part.function?.arguments) call.arguments += part.function.arguments;
+    }
+  }
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
+
+function openAIChatAPI(client: OpenAI): ChatCompletionsAPI {
+  return {
+    create: async (params) => toReply(await client.chat.completions.create(params)),
+    stream: async (params, onDelta, onToolCall) => collectDeltas(await client.chat.completions.create({ ...params, stream: true }), onDelta, onToolCall),
+  };
+}
+
+function groqChatAPI(client: Groq): ChatCompletionsAPI {
+  return {
+    create: async (params) => toReply(await client.chat.completions.create(params)),
+    stream: async (params, onDelta, onToolCall) => collectDeltas(await client.chat.completions.create({ ...params, stream: true }), onDelta, onToolCall),
+  };
+}
+
+function toAnthropicContent(message: ChatMessage): string | Anthropic.ContentBlockParam[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+  }
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return [
+      ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+      ...message.toolCalls.map(call => ({
+        type: 'tool_use' as const,
+        id: call.id,
+        name: call.name,
+        input: parseToolArguments(call.arguments),
+      })),
+    ];
+  }
+  return message.content;
+}
+
+function parseToolArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function toBlocks(content: string | Anthropic.ContentBlockParam[]): Anthropic.ContentBlockParam[] {
+  if (typeof content !== 'string') return content;
+  return content ? [{ type: 'text', text: content }] : [];
+}
+
+// Anthropic takes the system prompt separately and needs alternating user/assistant turns.
+// Tool results go back as user turns.
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: Anthropic.MessageParam[] } {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content).join("\n\n");
+  const turns: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    const role = message.role === 'tool' ? 'user' : message.role;
+    const content = toAnthropicContent(message);
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content = typeof last.content === 'string' && typeof content === 'string'
+        ? `${last.content}\n${content}`
+        : [...toBlocks(last.content), ...toBlocks(content)];
+    } else {
+      turns.push({ role, content });
+    }
+  }
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: '(The caller has joined.)' });
+  }
+  return { system, messages: turns };
+}
+
+function createAnthropicProvider(config: LLMProviderConfig, client: Anthropic): LLMProvider {
+  const toParams = (messages: ChatMessage[], tools?: ToolDefinition[]) => {
+    const { system, messages: turns } = toAnthropicMessages(messages);
+    // No JSON mode - prefill the opening brace so the reply is a bare JSON object. A prefill
+    // would stop the model from calling tools, so with tools the prompt alone asks for JSON.
+    const prefill = config.jsonMode && !tools?.length && turns[turns.length - 1].role === 'user' ? '{' : '';
+    return {
+      prefill,
+      params: {
+        model: config.model,
+        system,
+        messages: prefill ? [...turns, { role: 'assistant' as const, content: prefill }] : turns,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        ...(tools?.length ? {
+          tools: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+          })),
+        } : {}),
+      },
+    };
+  };
+
+  return {
+    config,
+    async complete(messages, tools) {
+      const { prefill, params } = toParams(messages, tools);
+      const response = await client.messages.create(params);
+      const text = response.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+      const toolCalls = response.content.flatMap(block =>
+        block.type === 'tool_use' ? [{ id: block.id, name: block.name, arguments: JSON.stringify(block.input) }] : []
+      );
+      return { content: prefill + text, toolCalls };
+    },
+    async stream(messages, onDelta, tools, onToolCall) {
+      const { prefill, params } = toParams(messages, tools);
+      let content = prefill;
+      // Tool inputs stream as partial JSON per content block
+      const toolCalls = new Map<number, ToolCall>();
+      if (prefill) onDelta(prefill);
+      for await (const event of await client.messages.create({ ...params, stream: true })) {
+        if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          toolCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+          onToolCall?.();
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+          const call = toolCalls.get(event.index);
+          if (call) call.arguments += event.delta.partial_json;
+        }
+      }
+      return {
+        content,
+        toolCalls: Array.from(toolCalls.values()).map(call => ({ ...call, arguments: call.arguments || '{}' })),
+      };
+    },
+  };
+}
+
+function createProvider(config: LLMProviderConfig): LLMProvider | null {
+  const apiKeyEnv = config.apiKeyEnv ?? DEFAULT_API_KEY_ENV[config.type];
+  const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+  if (apiKeyEnv && !apiKey) {
+    console.warn(`⚠️ ${apiKeyEnv} not set - LLM provider "${config.id}" disabled`);
+    return null;
+  }
+
+  // The SDK enforces the per-call timeout; retries are handled by the registry
+  const clientOptions = { timeout: config.timeoutMs, maxRetries: 0 };
+  switch (config.type) {
+    case "groq": {
+      return createOpenAIStyleProvider(config, groqChatAPI(new Groq({ apiKey, baseURL: config.baseUrl, ...clientOptions })));
+    }
+    case "openai":
+      return createOpenAIStyleProvider(config, openAIChatAPI(new OpenAI({ apiKey, baseURL: config.baseUrl, ...clientOptions })));
+    case "anthropic":
+      return createAnthropicProvider(config, new Anthropic({ apiKey, baseURL: config.baseUrl, ...clientOptions }));
+    case "openai-compatible":
+      if (!config.baseUrl) {
+        console.warn(`⚠️ LLM provider "${config.id}" has no baseUrl - disabled`);
+        return null;
+      }
+      // The OpenAI SDK insists on a key; local servers ignore it
+      return createOpenAIStyleProvider(config, openAIChatAPI(
+        new OpenAI({ apiKey: apiKey || "not-needed", baseURL: config.baseUrl, ...clientOptions })
+      ));
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const providers: LLMProvider[] = loadLLMConfig()
+  .map(createProvider)
+  .filter((provider): provider is LLMProvider => provider !== null);
+
+const circuits = new Map<string, CircuitState>(
+  providers.map(provider => [provider.config.id, { consecutiveFailures: 0, openUntil: null, trialInFlight: false }])
+);
+
+if (providers.length === 0) {
+  console.error('❌ No LLM providers available - check LLM_PROVIDERS and API keys');
+} else {
+  console.log(`🧠 LLM providers: ${providers.map(provider => `${provider.config.id} (${provider.config.model})`).join(' → ')}`);
+}
+
+function getCircuitStatus(state: CircuitState): LLMProviderStatus["circuit"] {
+  if (state.openUntil === null) return "closed";
+  return Date.now() < state.openUntil ? "open" : "half-open";
+}
+
+// Closed: always call. Open: skip until the cooldown ends. Half-open: let one trial call through.
+function canAttempt(state: CircuitState): boolean {
+  const status = getCircuitStatus(state);
+  if (status === "closed") return true;
+  if (status === "open" || state.trialInFlight) return false;
+  state.trialInFlight = true;
+  return true;
+}
+
+function recordSuccess(state: CircuitState): void {
+  state.consecutiveFailures = 0;
+  state.openUntil = null;
+  state.trialInFlight = false;
+}
+
+function recordFailure(provider: LLMProvider, state: CircuitState): void {
+  state.consecutiveFailures++;
+  state.trialInFlight = false;
+  const { failureThreshold, cooldownMs } = provider.config.circuitBreaker;
+  if (state.consecutiveFailures >= failureThreshold) {
+    state.openUntil = Date.now() + cooldownMs;
+    console.warn(`⚠️ LLM provider "${provider.config.id}" circuit open for ${cooldownMs / 1000}s after ${state.consecutiveFailures} failures`);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// One provider with its retry budget; throws the last error (or immediately when canRetry says no)
+async function withRetries<T>(provider: LLMProvider, call: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= provider.config.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await delay(250 * Math.pow(2, attempt - 1));
+    }
+    try {
+      return await call();
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ LLM provider "${provider.config.id}" attempt ${attempt + 1} failed:`, error instanceof Error ? error.message : error);
+      if (!canRetry()) break;
+    }
+  }
+  throw lastError;
+}
+
+// Run a call through the first healthy provider in the chain. A failure after output has
+// reached the caller (canFallBack false) is rethrown instead of falling through.
+async function runWithFallback<T>(
+  run: (provider: LLMProvider) => Promise<T>,
+  canFallBack: () => boolean = () => true
+): Promise<{ result: T; provider: string }> {
+  for (const provider of providers) {
+    const state = circuits.get(provider.config.id)!;
+    if (!canAttempt(state)) {
+      console.log(`Skipping LLM provider "${provider.config.id}" (circuit open)`);
+      continue;
+    }
+
+    try {
+      console.log(`Attempting ${provider.config.id} LLM call...`);
+      const result = await run(provider);
+      recordSuccess(state);
+      console.log(`✅ ${provider.config.id} call successful`);
+      return { result, provider: provider.config.id };
+    } catch (error) {
+      recordFailure(provider, state);
+      if (!canFallBack()) throw error;
+      console.warn(`⚠️ LLM provider "${provider.config.id}" failed, trying next provider`);
+    }
+  }
+
+  console.error("❌ All LLM providers failed");
+  throw new Error("All LLM providers failed");
+}
+
+// Chat completion through the first healthy provider in the chain
+export async function createChatCompletion(messages: ChatMessage[], tools?: ToolDefinition[]): Promise<ChatCompletion> {
+  const { result, provider } = await runWithFallback(p => withRetries(p, () => p.complete(messages, tools)));
+  return { ...result, provider };
+}
+
+// Streaming chat completion. Retries and fallback only happen before the first delta -
+// once text has been handed to onDelta (and possibly spoken) it can't be taken back.
+export async function streamChatCompletion(
+  messages: ChatMessage[],
+  onDelta: ChatDeltaHandler,
+  tools?: ToolDefinition[],
+  onToolCall?: ToolCallStartHandler
+): Promise<ChatCompletion> {
+  let started = false;
+  const forward: ChatDeltaHandler = delta => {
+    started = true;
+    onDelta(delta);
+  };
+
+  const { result, provider } = await runWithFallback(
+    p => withRetries(p, () => p.stream(messages, forward, tools, onToolCall), () => !started),
+    () => !started
+  );
+  return { ...result, provider };
+}
+
+export function getLLMProviderStatus(): LLMProviderStatus[] {
+  return providers.map(provider => {
+    const state = circuits.get(provider.config.id)!;
+    return {
+      id: provider.config.id,
+      type: provider.config.type,
+      model: provider.config.model,
+      circuit: getCircuitStatus(state),
+      consecutiveFailures: state.consecutiveFailures,
+      openUntil: state.openUntil ? new Date(state.openUntil).toISOString() : null,
+    };
+  });
+}
@@ -0,0 +1,260 @@
+import type { Locale } from "@shared/schema";
+
+// ============================================================================
+// LOCALES - prompt, lexicons, time/email words and TTS language code per caller language
+// ============================================================================
+// The booking logic stays in English: the caller's day/time and email words are rewritten into
+// the English phrasing spokenTime.ts and spokenEmail.ts already understand, and the LLM is told
+// to answer in the caller's language. English words are understood in every locale since
+// callers often mix them in ("ok", "at the rate").
+
+type Rewrite = [RegExp, string | ((match: string, ...groups: string[]) => string)];
+
+export interface LocaleConfig {
+  // Appended to the system prompt; English needs none
+  promptInstruction?: string;
+  // Phrases that accept / turn down a suggested slot or confirmation (on top of the English ones)
+  acceptance: string[];
+  rejection: string[];
+  // First capture group is the caller's name
+  namePatterns: RegExp[];
+  // What comes after these words is the time the caller offers instead: "no, pero el jueves"
+  alternativeLeadIns: string[];
+  // Rewrites into English, applied in order to lowercased text
+  timeWords: Rewrite[];
+  emailWords: Rewrite[];
+  // Passed to the TTS provider; each provider picks its own voice for it (ttsProviders.ts)
+  tts: { languageCode: string };
+}
+
+// Whole-word pattern that also works for Devanagari, where \b doesn't
+function phrase(source: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${source})(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+}
+
+function words(map: Record<string, string>): Rewrite[] {
+  return Object.entries(map).map(([source, english]) => [phrase(source), english]);
+}
+
+const SPANISH_WEEKDAYS: Record<string, string> = {
+  lunes: 'monday', martes: 'tuesday', 'mi[ée]rcoles': 'wednesday', jueves: 'thursday',
+  viernes: 'friday', 's[áa]bado': 'saturday', domingo: 'sunday',
+};
+const SPANISH_MONTHS: Record<string, string> = {
+  enero: 'january', febrero: 'february', marzo: 'march', abril: 'april', mayo: 'may', junio: 'june',
+  julio: 'july', agosto: 'august', 'se?ptiembre': 'september', octubre: 'october', noviembre: 'november', diciembre: 'december',
+};
+const SPANISH_HOURS = ['una', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce'];
+const SPANISH_DIGITS: Record<string, string> = {
+  cero: 'zero', uno: 'one', dos: 'two', tres: 'three', cuatro: 'four', cinco: 'five',
+  seis: 'six', siete: 'seven', ocho: 'eight', nueve: 'nine',
+};
+
+const HINDI_WEEKDAYS: Record<string, string> = {
+  'सोमवार|somvaa?r': 'monday', 'मंगलवार|mangalvaa?r': 'tuesday', 'बुधवार|budhvaa?r': 'wednesday',
+  'गुरुवार|बृहस्पतिवार|guruvaa?r|brihaspativaa?r': 'thursday', 'शुक्रवार|shukravaa?r': 'friday',
+  'शनिवार|shanivaa?r': 'saturday', 'रविवार|ravivaa?r|itvaa?r': 'sunday',
+};
+const HINDI_HOURS: Record<string, string> = {
+  'एक|ek': '1', 'दो|do': '2', 'तीन|teen|tin': '3', 'चार|char|chaar': '4', 'पाँच|पांच|paanch|panch': '5',
+  'छह|छः|chhe|che': '6', 'सात|saat|sat': '7', 'आठ|aath|aat': '8', 'नौ|nau': '9', 'दस|das': '10',
+  'ग्यारह|gyarah|gyara': '11', 'बारह|barah|bara': '12',
+};
+const BAJE = '(?:बजे|baje)';
+const NUMBER = '(\\d{1,2}(?::\\d{2})?)';
+
+const LOCALES: Record<Locale, LocaleConfig> = {
+  en: {
+    acceptance: [],
+    rejection: [],
+    namePatterns: [],
+    alternativeLeadIns: [],
+    timeWords: [],
+    emailWords: [],
+    tts: { languageCode: 'en' },
+  },
+
+  es: {
+    promptInstruction: `LANGUAGE: The caller speaks Spanish. Write every replyText in natural spoken Spanish, including slot times and email read-backs (translate the English slot labels I give you). Keep the JSON keys and askFor values in English. When asking for the email, suggest they say it like: "juan arroba gmail punto com".`,
+    acceptance: [
+      's[ií]', 'claro', 'vale', 'perfecto', 'de acuerdo', 'me viene bien', 'me va bien', 'est[áa] bien', 'muy bien',
+      'genial', 'correcto', 'excelente', 'por supuesto', 'dale', 'bueno', 'me sirve', 'no hay problema',
+    ],
+    rejection: [
+      '^no(?! hay problema)', 'no puedo', 'no me viene bien', 'no me va bien', 'no me sirve', 'no estoy disponible', 'estoy ocupad[oa]',
+      'imposible', 'tengo (?:una|otra) reuni[óo]n', 'demasiado temprano', 'demasiado tarde', 'mejor otro d[ií]a', 'otra hora',
+    ],
+    namePatterns: [new RegExp('(?:me llamo|mi nombre es|soy) ([\\p{L}\\s]+)', 'iu')],
+    alternativeLeadIns: ['pero', 'mejor', 'qu[ée] tal', 'prefiero', 'en vez', 'podemos', 'podr[ií]amos'],
+    timeWords: [
+      // "el martes de la semana que viene" → "next tuesday", before "la semana que viene" becomes "next week"
+      [phrase(`(?:el )?(${Object.keys(SPANISH_WEEKDAYS).join('|')}) de la (?:semana que viene|pr[óo]xima semana|semana pr[óo]xima)`), 'next $1'],
+      ...words({
+        'pasado mañana': 'day after tomorrow',
+        'mañana por la mañana': 'tomorrow morning',
+        'mañana por la tarde': 'tomorrow afternoon',
+        'de la mañana|de la madrugada': 'am',
+        'de la tarde|de la noche': 'pm',
+        'esta mañana': 'this morning',
+        'esta tarde': 'this afternoon',
+        'esta noche': 'tonight',
+        'por la mañana|en la mañana': 'morning',
+        'por la tarde|en la tarde': 'afternoon',
+        'por la noche|en la noche': 'evening',
+        'mañana': 'tomorrow',
+        'hoy': 'today',
+        'a principios de la (?:semana que viene|pr[óo]xima semana)': 'early next week',
+        'la semana que viene|la pr[óo]xima semana|la semana pr[óo]xima': 'next week',
+        'a (?:finales|fin) de (?:la|esta) semana': 'end of the week',
+        'esta semana': 'this week',
+        'mediod[íi]a': 'noon',
+        'en punto': "o'clock",
+      }),
+      // "el próximo martes" / "el martes que viene" mean the coming tuesday
+      [phrase(`(?:el )?pr[óo]ximo (${Object.keys(SPANISH_WEEKDAYS).join('|')})`), '$1'],
+      [phrase(`(?:el )?(${Object.keys(SPANISH_WEEKDAYS).join('|')}) que viene`), '$1'],
+      ...words(SPANISH_WEEKDAYS),
+      // "el 14 de marzo" → "march 14", "el 14" → "the 14th"
+      [phrase(`(?:el )?(\\d{1,2}) de (${Object.keys(SPANISH_MONTHS).join('|')})`), '$2 $1'],
+      ...words(SPANISH_MONTHS),
+      [phrase('el (?:d[íi]a )?(\\d{1,2})'), 'the $1th'],
+      // Hours are only read as numbers after "la(s)": "una reunión" isn't one o'clock
+      [phrase(`(las?) (${SPANISH_HOURS.join('|')})`), (_, article, hour) => `${article} ${SPANISH_HOURS.indexOf(hour) + 1}`],
+      [phrase('(\\d{1,2}) y media'), '$1:30'],
+      [phrase('(\\d{1,2}) y cuarto'), '$1:15'],
+      [phrase('(\\d{1,2}) menos cuarto'), 'quarter to $1'],
+      ...words({
+        'entre las?': 'between',
+        'y las?': 'and',
+        'despu[ée]s de las?|a partir de las?': 'after',
+        'antes de las?': 'before',
+        'desde las?': 'from',
+        'hasta las?': 'until',
+        'sobre las?|hacia las?|alrededor de las?': 'around',
+        'a las?': 'at',
+      }),
+    ],
+    emailWords: [
+      ...words({
+        'mi (?:correo|email|e-?mail)(?: electr[óo]nico)? es': 'my email is',
+        'arroba': 'at',
+        'punto': 'dot',
+        'gui[óo]n bajo|barra baja': 'underscore',
+        'gui[óo]n': 'dash',
+        'm[áa]s': 'plus',
+      }),
+      ...words(SPANISH_DIGITS),
+    ],
+    tts: { languageCode: 'es' },
+  },
+
+  hi: {
+    promptInstruction: `LANGUAGE: The caller speaks Hindi. Write every replyText in natural spoken Hindi in Devanagari script, including slot times and email read-backs (translate the English slot labels I give you), but spell email addresses in English letters. Keep the JSON keys and askFor values in English. When asking for the email, suggest they say it in English like: "rahul at gmail dot com".`,
+    acceptance: [
+      'हाँ', 'हां', 'जी', 'ठीक है', 'ठीक', 'चलेगा', 'सही', 'बिल्कुल', 'अच्छा', 'बढ़िया',
+      'haa?n', 'ji', 'th?eek hai', 'thik hai', 'chalega', 'sahi', 'bilkul', 'ac?cha', 'achha', 'badhiya',
+    ],
+    rejection: [
+      // A bare "no" only at the start: "koi dikkat nahi" means no problem
+      '^(?:नहीं|नही|nahi|nahin)', 'नहीं चलेगा', 'नहीं हो पाएगा', 'व्यस्त', 'मुश्किल', 'nahi chalega', 'nahi ho payega', 'vyast', 'mushkil',
+    ],
+    namePatterns: [
+      new RegExp('(?:मेरा नाम|mera naam|mera nam) ([\\p{L}\\p{M}\\s]+?) (?:है|hai)', 'iu'),
+      new RegExp('(?:मैं|main) ([\\p{L}\\p{M}\\s]+?) (?:हूँ|हूं|hoon|hun)', 'iu'),
+    ],
+    alternativeLeadIns: ['लेकिन', 'बल्कि', 'क्या', 'lekin', 'balki', 'kya'],
+    timeWords: [
+      // Devanagari digits
+      [/[०-९]/g, digit => String('०१२३४५६७८९'.indexOf(digit))],
+      ...words({
+        'परसों|parson': 'day after tomorrow',
+        'कल|kal': 'tomorrow',
+        'आज|aaj|aj': 'today',
+        'अगले (?:हफ्ते|हफ़्ते|सप्ताह)|agle hafte': 'next week',
+        'इस (?:हफ्ते|हफ़्ते|सप्ताह)|is hafte': 'this week',
+      }),
+      [phrase(`(?:अगले|agle) (${Object.keys(HINDI_WEEKDAYS).join('|')})`), 'next $1'],
+      ...words(HINDI_WEEKDAYS),
+      ...words({
+        'सुबह|subah|subha': 'morning',
+        'दोपहर|dopahar|dopehar': 'afternoon',
+        'शाम|shaam|sham': 'evening',
+        'रात|raat': 'at night',
+      }),
+      // Number words only count as hours before "baje": "do baje", "saadhe teen baje"
+      ...Object.entries(HINDI_HOURS).map(([source, digit]): Rewrite => [phrase(`(?:${source})(?= ${BAJE})`), digit]),
+      ...Object.entries(HINDI_HOURS).map(([source, digit]): Rewrite => [phrase(`(साढ़े|सवा|पौने|saa?dhe|sava|paune) (?:${source})`), `$1 ${digit}`]),
+      [phrase('डेढ़|dedh'), '1:30'],
+      [phrase('ढाई|dhai|dhaai'), '2:30'],
+      [phrase('(?:साढ़े|saa?dhe) (\\d{1,2})'), '$1:30'],
+      [phrase('(?:सवा|sava) (\\d{1,2})'), '$1:15'],
+      [phrase('(?:पौने|paune) (\\d{1,2})'), (_, hour) => `${(parseInt(hour, 10) + 10) % 12 + 1}:45`],
+      // "4 से 6 बजे के बीच" → "between 4 and 6"
+      [phrase(`${NUMBER} (?:से|se) ${NUMBER} ${BAJE} (?:के बीच|ke beech|ke bich)`), 'between $1 and $2'],
+      [phrase(`${NUMBER} ${BAJE} (?:के बाद|ke baad|ke bad)`), 'after $1'],
+      [phrase(`${NUMBER} ${BAJE} (?:से पहले|se pehle|se pahle)`), 'before $1'],
+      [phrase(`${NUMBER} ${BAJE} (?:तक|tak)`), 'by $1'],
+      [phrase(`${NUMBER} ${BAJE}`), 'at $1'],
+    ],
+    emailWords: words({
+      'मेरा (?:ईमेल|email)(?: (?:आईडी|id))? है|mera (?:email|e-?mail)(?: id)? hai': 'my email is',
+      'एट द रेट|एट': 'at',
+      'डॉट': 'dot',
+      'अंडरस्कोर': 'underscore',
+    }),
+    tts: { languageCode: 'hi' },
+  },
+};
+
+export function getLocale(locale?: Locale | null): LocaleConfig {
+  return LOCALES[locale ?? 'en'];
+}
+
+function rewrite(text: string, rules: Rewrite[]): string {
+  return rules.reduce((result, [pattern, replacement]) =>
+    typeof replacement === 'string' ? result.replace(pattern, replacement) : result.replace(pattern, replacement), text.toLowerCase());
+}
+
+// "el martes a las tres y media" → "tuesday at 3:30"
+export function translateTimeWords(text: string, locale?: Locale | null): string {
+  return rewrite(text, getLocale(locale).timeWords);
+}
+
+// "juan arroba gmail punto com" → "juan at gmail dot com"
+export function translateEmailWords(text: string, locale?: Locale | null): string {
+  return rewrite(text, getLocale(locale).emailWords);
+}
+
+function matchesAny(text: string, phrases: string[]): boolean {
+  return phrases.length > 0 && phrase(phrases.join('|')).test(text);
+}
+
+export function isLocalizedAcceptance(text: string, locale?: Locale | null): boolean {
+  return matchesAny(text, getLocale(locale).acceptance);
+}
+
+export function isLocalizedRejection(text: string, locale?: Locale | null): boolean {
+  return matchesAny(text, getLocale(locale).rejection);
+}
+
+// "no, pero el jueves a las tres" → "el jueves a las tres"
+export function localizedAlternative(text: string, locale?: Locale | null): string | undefined {
+  const leadIns = getLocale(locale).alternativeLeadIns;
+  if (leadIns.length === 0) return undefined;
+  const match = text.match(new RegExp(`(?<![\\p{L}\\p{M}])(?:${leadIns.join('|')})(?![\\p{L}\\p{M}])(.*)$`, 'iu'));
+  return match?.[1];
+}
+
+export function extractLocalizedName(text: string, locale?: Locale | null): string | undefined {
+  for (const pattern of getLocale(locale).namePatterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+// The system prompt in the caller's language
+export function localizePrompt(prompt: string, locale?: Locale | null): string {
+  const instruction = getLocale(locale).promptInstruction;
+  return instruction ? `${prompt}\n\n${instruction}` : prompt;
+}
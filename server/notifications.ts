@@ -0,0 +1,208 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import { formatSlotLabel, getHost } from "./availability";
+import { buildCalendarInvite } from "./ics";
+import { createManagementToken } from "./bookingTokens";
+import { renderEmail } from "./emailTemplates";
+import type { Booking, NotificationType, ScheduledJob } from "@shared/schema";
+
+// ============================================================================
+// BOOKING NOTIFICATIONS - confirmation, reminder and cancellation emails via SMTP
+// ============================================================================
+
+// SMTP settings - point SMTP_HOST/SMTP_PORT at MailHog (localhost:1025) to catch mail locally
+const SMTP_HOST = process.env.SMTP_HOST;
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || "1025", 10);
+const EMAIL_FROM = process.env.EMAIL_FROM || "SleeckOS <bookings@sleeckos.com>";
+// Public site URL for links in emails (e.g. https://sleeckos.com); links are omitted when unset
+const APP_BASE_URL = process.env.APP_BASE_URL?.replace(/\/$/, "");
+const MEETING_URL = process.env.BOOKING_MEETING_URL;
+
+// How often due jobs are checked (NOTIFICATION_POLL_INTERVAL_SECONDS, default 30)
+const POLL_INTERVAL_MS = parseInt(process.env.NOTIFICATION_POLL_INTERVAL_SECONDS || "30", 10) * 1000;
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 20;
+// A claimed job is retried by the next poll if its worker died before finishing
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+const REMINDER_OFFSETS: Array<[NotificationType, number]> = [
+  ["reminder_24h", 24 * 60 * 60 * 1000],
+  ["reminder_1h", 60 * 60 * 1000],
+];
+
+function createTransport(): Transporter | null {
+  if (!SMTP_HOST) {
+    console.warn('⚠️ SMTP_HOST not set - booking emails disabled');
+    return null;
+  }
+  return nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+}
+
+const transport = createTransport();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+// ============================================================================
+// QUEUEING - called from the booking provider on every booking change
+// ============================================================================
+
+async function queueJobs(booking: Booking, immediate: NotificationType): Promise<void> {
+  const now = Date.now();
+  await storage.createScheduledJob({ type: immediate, bookingId: booking.id, runAt: new Date(now) });
+  if (booking.status === "cancelled") return;
+
+  for (const [type, offsetMs] of REMINDER_OFFSETS) {
+    const runAt = booking.meetingTime.getTime() - offsetMs;
+    // Booked too close to the meeting for this reminder to make sense
+    if (runAt > now) {
+      await storage.createScheduledJob({ type, bookingId: booking.id, runAt: new Date(runAt) });
+    }
+  }
+}
+
+// Notification failures never fail the booking itself
+async function enqueue(booking: Booking, immediate: NotificationType): Promise<void> {
+  if (!transport) return;
+  try {
+    await storage.cancelPendingScheduledJobs(booking.id);
+    await queueJobs(booking, immediate);
+    processDueNotifications().catch(error => console.error('Notification processing failed:', error));
+  } catch (error) {
+    console.error(`Failed to queue ${immediate} email for booking ${booking.id}:`, error);
+  }
+}
+
+export function notifyBookingConfirmed(booking: Booking): Promise<void> {
+  return enqueue(booking, "confirmation");
+}
+
+export function notifyBookingRescheduled(booking: Booking): Promise<void> {
+  return enqueue(booking, "reschedule");
+}
+
+export function notifyBookingCancelled(booking: Booking): Promise<void> {
+  return enqueue(booking, "cancellation");
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+function buildEmail(type: NotificationType, booking: Booking) {
+  const timeZone = booking.timezone || "UTC";
+  const calendarUrl = APP_BASE_URL
+    ? `${APP_BASE_URL}/api/bookings/${booking.id}/calendar.ics?token=${encodeURIComponent(createManagementToken(booking.id))}`
+    : undefined;
+
+  const rendered = renderEmail(type, {
+    name: booking.name,
+    meetingTime: `${formatSlotLabel(booking.meetingTime, timeZone)} (${timeZone})`,
+    hostName: (booking.hostId && getHost(booking.hostId)?.name) || "SleeckOS Team",
+    joinLine: MEETING_URL ? `Join here: ${MEETING_URL}` : "",
+    calendarLine: calendarUrl ? `You can also download it here: ${calendarUrl}` : "",
+  });
+
+  // Reminders don't carry an invite - the event is already in the caller's calendar
+  const withInvite = type === "confirmation" || type === "reschedule" || type === "cancellation";
+  const invite = withInvite ? buildCalendarInvite(booking) : undefined;
+
+  return {
+    from: EMAIL_FROM,
+    to: `"${booking.name.replace(/"/g, "'")}" <${booking.email}>`,
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html,
+    // Sent as a calendar part so mail clients show accept/decline buttons
+    icalEvent: invite
+      ? { filename: invite.filename, method: booking.status === "cancelled" ? "CANCEL" : "REQUEST", content: invite.content }
+      : undefined,
+  };
+}
+
+// Why a job should be dropped instead of sent, if at all
+function getSkipReason(job: ScheduledJob, booking: Booking | undefined): string | undefined {
+  if (!booking) return "Booking not found";
+  const isReminder = job.type === "reminder_24h" || job.type === "reminder_1h";
+  if (isReminder && booking.status === "cancelled") return "Booking cancelled";
+  // The server was down past the meeting start - a late reminder is worse than none
+  if (isReminder && booking.meetingTime.getTime() <= Date.now()) return "Meeting already started";
+  return undefined;
+}
+
+async function processJob(job: ScheduledJob): Promise<void> {
+  const now = new Date();
+  const claimed = await storage.claimScheduledJob(job.id, now, new Date(now.getTime() + CLAIM_LEASE_MS));
+  if (!claimed) return;
+
+  const booking = await storage.getBooking(claimed.bookingId);
+  const skipReason = getSkipReason(claimed, booking);
+  if (skipReason || !booking) {
+    await storage.updateScheduledJob(claimed.id, { status: "cancelled", lastError: skipReason, completedAt: new Date() });
+    return;
+  }
+
+  try {
+    await transport!.sendMail(buildEmail(claimed.type, booking));
+    await storage.updateScheduledJob(claimed.id, { status: "sent", lastError: null, completedAt: new Date() });
+    console.log(`📧 Sent ${claimed.type} email for booking ${booking.id}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const failed = claimed.attempts >= MAX_ATTEMPTS;
+    // Back off 1, 2, 4, 8 minutes between attempts
+    const retryAt = new Date(Date.now() + Math.pow(2, claimed.attempts - 1) * 60 * 1000);
+    await storage.updateScheduledJob(claimed.id, failed
+      ? { status: "failed", lastError: message, completedAt: new Date() }
+      : { status: "pending", lastError: message, runAt: retryAt }
+    );
+    console.error(`Failed to send ${claimed.type} email for booking ${booking.id} (attempt ${claimed.attempts}):`, message);
+  }
+}
+
+// Send every due notification; returns the number of jobs processed
+export async function processDueNotifications(): Promise<number> {
+  if (!transport || processing) return 0;
+  processing = true;
+
+  try {
+    const jobs = await storage.getDueScheduledJobs(new Date(), BATCH_SIZE);
+    for (const job of jobs) {
+      await processJob(job);
+    }
+    return jobs.length;
+  } finally {
+    processing = false;
+  }
+}
+
+// Start polling for due notifications; returns a function that stops it
+export function startNotificationWorker(intervalMs: number = POLL_INTERVAL_MS): () => void {
+  if (pollTimer || !transport) return stopNotificationWorker;
+
+  console.log(`📬 Notification worker started (SMTP ${SMTP_HOST}:${SMTP_PORT}, every ${intervalMs / 1000}s)`);
+  // Catch up on anything that came due while the server was down
+  processDueNotifications().catch(error => console.error('Notification processing failed:', error));
+  pollTimer = setInterval(() => {
+    processDueNotifications().catch(error => {
+      console.error('Notification processing failed:', error);
+    });
+  }, intervalMs);
+  // Don't keep the process alive just for the worker
+  pollTimer.unref();
+
+  return stopNotificationWorker;
+}
+
+export function stopNotificationWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
@@ -0,0 +1,118 @@
+// ============================================================================
+// REPLY STREAMING - pull replyText out of a streaming JSON completion, sentence by sentence
+// ============================================================================
+
+const REPLY_TEXT_KEY = /"replyText"\s*:\s*"/;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+// Incrementally decodes the "replyText" string value from raw JSON chunks. push() returns the
+// newly decoded text (possibly ""); escapes split across chunks wait for the next chunk.
+export function createReplyTextExtractor() {
+  let raw = '';
+  let valueStart = -1;
+  let position = 0;
+  let done = false;
+
+  function push(chunk: string): string {
+    raw += chunk;
+    if (done) return '';
+
+    if (valueStart < 0) {
+      const match = REPLY_TEXT_KEY.exec(raw);
+      if (!match) return '';
+      valueStart = match.index + match[0].length;
+      position = valueStart;
+    }
+
+    let decoded = '';
+    while (position < raw.length) {
+      const char = raw[position];
+      if (char === '"') {
+        done = true;
+        break;
+      }
+      if (char !== '\\') {
+        decoded += char;
+        position++;
+        continue;
+      }
+
+      // Escape sequence - wait until it is complete
+      const next = raw[position + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = raw.slice(position + 2, position + 6);
+        if (hex.length < 4) break;
+        decoded += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+      } else {
+        decoded += ESCAPES[next] ?? next;
+        position += 2;
+      }
+    }
+    return decoded;
+  }
+
+  return {
+    push,
+    // True once the closing quote of replyText has been seen
+    isComplete: () => done,
+  };
+}
+
+// Abbreviations whose trailing period doesn't end a sentence
+const ABBREVIATIONS = new Set(["mr", "mrs", "ms", "dr", "st", "vs", "etc", "e.g", "i.e", "a.m", "p.m"]);
+
+// Shortest chunk worth a separate TTS call - shorter sentences are merged into the next one
+const MIN_SENTENCE_LENGTH = 12;
+
+function endsWithAbbreviation(text: string): boolean {
+  const lastWord = text.slice(0, -1).split(/\s+/).pop()?.toLowerCase() ?? '';
+  return ABBREVIATIONS.has(lastWord);
+}
+
+// Buffers streamed text and calls onSentence for each complete sentence. A sentence ends at
+// . ! or ? followed by whitespace, so "2.30", "hello@acme.com" and "Dr. Smith" stay intact.
+export function createSentenceSplitter(onSentence: (sentence: string) => void) {
+  let buffer = '';
+
+  function emitCompleteSentences(): void {
+    const boundary = /[.!?]+["')\]]*\s+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const sentence = buffer.slice(start, end).trim();
+      if (endsWithAbbreviation(buffer.slice(start, match.index + 1))) continue;
+      if (sentence.length < MIN_SENTENCE_LENGTH) continue;
+      onSentence(sentence);
+      start = end;
+    }
+    buffer = buffer.slice(start);
+  }
+
+  return {
+    push(text: string): void {
+      if (!text) return;
+      buffer += text;
+      emitCompleteSentences();
+    },
+    // Emit whatever is left (the last sentence often has no trailing whitespace)
+    flush(): void {
+      const rest = buffer.trim();
+      buffer = '';
+      if (rest) onSentence(rest);
+    },
+  };
+}
@@ -1,29 +1,95 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import OpenAI from "openai";
-import Groq from "groq-sdk";
-import { AssemblyAI } from "assemblyai";
+import { startSessionSweeper, getSessionStats } from "./sessionSweeper";
+import { startNotificationWorker } from "./notifications";
+import { createChatCompletion, streamChatCompletion, getLLMProviderStatus, type ChatMessage, type ChatCompletion } from "./llmProviders";
+import { createReplyTextExtractor, createSentenceSplitter } from "./replyStream";
+import { normalizeSpokenEmail, describeHeardEmail, needsEmailCheck } from "./spokenEmail";
+import { parseTimeRequest, matchesTimeRequest, describeTimeRequest, type TimeRequest } from "./spokenTime";
+import {
+  localizePrompt,
+  isLocalizedAcceptance,
+  isLocalizedRejection,
+  localizedAlternative,
+  extractLocalizedName
+} from "./locales";
+import { beginTurn, cancelTurn, forgetTurns, recordReply, truncateReply, type TurnRecord } from "./bargeIn";
+import { getSTTProviderStatus, openSTTStream, type STTStream } from "./speechToText";
+import { ttsProvider } from "./ttsProviders";
+import {
+  getOrSynthesizeTTS,
+  getTTSCacheEntry,
+  getTTSCacheSize,
+  getTTSCacheStats,
+  isTTSHash,
+  loadTTSCache,
+  purgeTTSCache,
+  ttsAudioHash,
+  ttsAudioPath,
+  ttsAudioUrl,
+  warmTTSCache
+} from "./ttsCache";
+import { getOrSynthesizeTemplatedTTS } from "./ttsTemplates";
+import { AGENT_TOOLS_ENABLED, addToolContext, runAgentTurn, selectSlot, toSlotSelection } from "./agentTools";
+import {
+  advanceBookingFlow,
+  canBook,
+  checkAskFor,
+  createBookingFlow,
+  describeBookingStep,
+  wantsHuman,
+  SESSION_HANDOFF
+} from "./bookingFlow";
+import {
+  getAvailableSlots,
+  findClosestSlot,
+  summarizeSlots,
+  formatSlotLabel,
+  holdSlotForSession,
+  findSlotByStart,
+  toSlotOption,
+  DEFAULT_TIMEZONE,
+  DEFAULT_HOST_ID,
+  type AvailableSlot
+} from "./availability";
+import { addDaysToDateKey, toDateKey, zonedTimeToUtc } from "./timezone";
+import { createManagementToken, verifyManagementToken } from "./bookingTokens";
+import { buildCalendarInvite } from "./ics";
+import { bookingProvider } from "./bookingProviders";
+import { ZodError } from "zod";
 import {
   voiceAgentRequestSchema,
   voiceAgentResponseSchema,
+  voiceAgentCancelSchema,
+  audioStartSchema,
   bookingRequestSchema,
   bookingResponseSchema,
+  bookingRescheduleSchema,
   ttsRequestSchema,
   ttsResponseSchema,
+  ttsCacheWarmSchema,
+  ttsCachePurgeSchema,
+  isValidTimeZone,
   type VoiceAgentSession,
+  type BookingFlow,
+  type BookingFlowState,
+  type SlotSelection,
   type VoiceAgentRequest,
   type VoiceAgentResponse,
   type BookingRequest,
   type BookingResponse,
+  type BookingDetails,
+  type BookingProviderInfo,
+  type SlotOption,
+  type Booking,
   type TTSRequest,
-  type TTSResponse
+  type TTSResponse,
+  type Locale
 } from "@shared/schema";
 
-// In-memory session storage
-const sessions: Map<string, VoiceAgentSession> = new Map();
-
 // System prompt constant (shared across all voice agent calls)
 const VOICE_AGENT_SYSTEM_PROMPT = `You are SleeckOS Agent, a polite and helpful voice booking assistant. Your goal is to collect the following information from users who want to book a call:
 1. Name (first and last name)
@@ -32,6 +98,7 @@ const VOICE_AGENT_SYSTEM_PROMPT = `You are SleeckOS Agent, a polite and helpful
 
 Instructions:
 - Ask for ONE piece of information at a time
+- Each turn I tell you the current step - follow it even if the caller jumps ahead
 - Be conversational and friendly
 - Keep responses short and natural for voice interaction
 - COLLECTION ORDER:
@@ -48,40 +115,26 @@ Instructions:
 - If user is not available for the suggested time, I will provide alternative slots
 - If user rejects multiple options, ask for their preferred time
 - When you have all information including confirmed meeting time and email, confirm everything with the user
-- You MUST respond ONLY with a valid JSON object containing: {"replyText": "your response to user", "askFor": "name|meeting_preference|user_preferred_time|email|confirmation|null", "readyToBook": false/true}
-- Set readyToBook to true only after user confirms all information is correct
-- Use "askFor" values: "name", "meeting_preference", "user_preferred_time", "email", "confirmation", or null when done
+- RETURNING CALLERS who want to move or cancel an existing booking:
+  * Ask for the email address they booked with (askFor "reschedule_email" or "cancel_email") - you don't need their name
+  * I will look up their booking and tell you what I found - NEVER invent booking details
+  * To reschedule: suggest the new time slots I provide, then ask them to confirm moving the booking (askFor "reschedule_confirmation")
+  * To cancel: read back the booking and ask them to confirm cancelling it (askFor "cancel_confirmation")
+  * I make the change once they confirm and will tell you the result - report it to the user
+- You MUST respond ONLY with a valid JSON object containing: {"replyText": "your response to user", "askFor": "name|meeting_preference|user_preferred_time|email|confirmation|reschedule_email|reschedule_confirmation|cancel_email|cancel_confirmation|null", "readyToBook": false/true}
+- Set readyToBook to true only after user confirms all information is correct for a NEW booking (never for a reschedule or cancellation)
+- Use "askFor" values: "name", "meeting_preference", "user_preferred_time", "email", "confirmation", "reschedule_email", "reschedule_confirmation", "cancel_email", "cancel_confirmation", or null when done
 - If the user provides multiple pieces of info at once, acknowledge all but focus on the first missing piece
+- A reply of yours marked "interrupted" was cut off by the caller - they only heard its replyText
 
 Start by greeting the user and asking for their name. Remember: respond ONLY with valid JSON.`;
 
-// Initialize Groq client (primary) and OpenAI client (fallback)
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY,
-});
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Initialize ElevenLabs client
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
-
 // ============================================================================
-// TTS CACHE SYSTEM - Pre-generated audio for common phrases
+// TTS CACHE SYSTEM - Pre-generated audio for common phrases (stored by ttsCache.ts)
 // ============================================================================
 
-interface TTSCacheEntry {
-  text: string;
-  audioUrl: string;
-  generatedAt: number;
-  hits: number;
-}
-
-// In-memory cache for TTS audio
-const TTS_CACHE = new Map<string, TTSCacheEntry>();
-
-// Common phrases used in voice agent conversations (71% hit rate)
+// Common phrases used in voice agent conversations. Replies that only differ by the caller's name,
+// email or a time are covered by template splicing (ttsTemplates.ts) rather than this list.
 const CACHEABLE_PHRASES = [
   // Greeting - 100% hit rate
   "Hello! I'm SleeckOS Agent. I'll help you book a call. May I have your name please?",
@@ -96,8 +149,8 @@ const CACHEABLE_PHRASES = [
   "If you prefer to speak it, say it SLOWLY and CLEARLY like: john at gmail dot com.",
 
   // Time slot questions - 40% hit rate
-  "What time would work better for you tomorrow?",
-  "Do you have a preferred time for tomorrow?",
+  "What day and time would work better for you?",
+  "Do you have a preferred day and time?",
 
   // Confirmation phrases - 100% hit rate
   "Perfect! Your booking is confirmed. You'll receive a confirmation email shortly.",
@@ -120,120 +173,104 @@ const CACHEABLE_PHRASES = [
   "That doesn't seem like a valid email. Could you type it in the text field?",
 ];
 
-// Pre-generate TTS for all cacheable phrases on server startup
+// Pre-generate and pin the cacheable phrases; clips already on disk from an earlier run are reused
 async function preGenerateTTSCache(): Promise<void> {
-  if (!ELEVENLABS_API_KEY) {
-    console.warn('⚠️ ElevenLabs API key not found - TTS cache disabled');
-    return;
-  }
-
-  console.log('🎤 Pre-generating TTS cache for', CACHEABLE_PHRASES.length, 'phrases...');
+  await loadTTSCache();
   const startTime = Date.now();
 
-  let successCount = 0;
-  let failCount = 0;
-
-  // Generate all phrases in parallel for faster startup
-  const promises = CACHEABLE_PHRASES.map(async (phrase) => {
-    try {
-      const audioUrl = await generateTTSInternal(phrase);
-      if (audioUrl) {
-        TTS_CACHE.set(phrase, {
-          text: phrase,
-          audioUrl,
-          generatedAt: Date.now(),
-          hits: 0
-        });
-        successCount++;
-      } else {
-        failCount++;
-      }
-    } catch (error) {
-      console.error(`Failed to pre-generate TTS for: "${phrase.substring(0, 50)}..."`, error);
-      failCount++;
+  const missing = CACHEABLE_PHRASES.filter(phrase => !getTTSCacheEntry(ttsAudioHash(phrase)));
+  if (missing.length > 0) {
+    console.log(`🎤 Pre-generating TTS for ${missing.length} phrases with ${ttsProvider.id}...`);
+    // One phrase first, so an unavailable provider doesn't fail every phrase
+    const first = await warmTTSCache(missing.slice(0, 1));
+    if (first.failed.length > 0) {
+      console.warn(`⚠️ TTS provider ${ttsProvider.id} unavailable - TTS cache not pre-generated`);
+      return;
     }
-  });
-
-  await Promise.all(promises);
-
-  const duration = Date.now() - startTime;
-  console.log(`✅ TTS cache ready: ${successCount} phrases cached in ${duration}ms`);
-  if (failCount > 0) {
-    console.warn(`⚠️ ${failCount} phrases failed to cache`);
   }
-}
 
-// Internal TTS generation (used by both cache pre-generation and runtime)
-async function generateTTSInternal(text: string): Promise<string | undefined> {
-  if (!text || !ELEVENLABS_API_KEY) return undefined;
+  // Generate the rest in parallel for faster startup
+  const { failed } = await warmTTSCache(CACHEABLE_PHRASES);
 
-  try {
-    const ttsResponse = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/21m00Tcm4TlvDq8ikWAM`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': ELEVENLABS_API_KEY,
-      },
-      body: JSON.stringify({
-        text: text,
-        model_id: "eleven_flash_v2_5",
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5,
-        },
-      }),
-    });
-
-    if (ttsResponse.ok) {
-      const audioBuffer = await ttsResponse.arrayBuffer();
-      const audioBase64 = Buffer.from(audioBuffer).toString('base64');
-      return `data:audio/mpeg;base64,${audioBase64}`;
-    } else {
-      console.error(`TTS generation failed: ${ttsResponse.status}`);
-      return undefined;
-    }
-  } catch (error) {
-    console.error('TTS generation error:', error);
-    return undefined;
+  const duration = Date.now() - startTime;
+  console.log(`✅ TTS cache ready: ${CACHEABLE_PHRASES.length - failed.length} phrases (${missing.length - failed.length} generated) in ${duration}ms`);
+  if (failed.length > 0) {
+    console.warn(`⚠️ ${failed.length} phrases failed to cache`);
   }
 }
 
-// Initialize AssemblyAI client for token generation
-const ASSEMBLYAI_API_KEY = process.env.ASSEMBLYAI_API_KEY;
-let assemblyAIClient: AssemblyAI | null = null;
-
-if (ASSEMBLYAI_API_KEY) {
-  assemblyAIClient = new AssemblyAI({
-    apiKey: ASSEMBLYAI_API_KEY,
-  });
-}
-
 // ============================================================================
 // SHARED HELPER FUNCTIONS (used by both regular and streaming voice agent)
 // ============================================================================
 
-// Get or create session with consistent initialization
-function getOrCreateSession(sessionId: string): VoiceAgentSession {
-  let session = sessions.get(sessionId);
-  if (!session) {
+// Get or create session with consistent initialization (resumes persisted sessions by sessionId)
+async function getOrCreateSession(sessionId: string, timezone?: string, locale?: Locale): Promise<VoiceAgentSession> {
+  let session = await storage.getVoiceSession(sessionId);
+  if (session) {
+    // Callers may report their timezone on any turn
+    if (timezone) session.timezone = timezone;
+    // Switching language mid-call swaps the system prompt
+    if (locale && locale !== (session.locale ?? 'en')) {
+      session.locale = locale;
+      session.messages[0] = { role: 'system', content: localizePrompt(VOICE_AGENT_SYSTEM_PROMPT, locale) };
+    }
+  } else {
     session = {
       sessionId,
       messages: [{
         role: 'system',
-        content: VOICE_AGENT_SYSTEM_PROMPT
+        content: localizePrompt(VOICE_AGENT_SYSTEM_PROMPT, locale)
       }],
       collectedData: {
         rejectedSlots: [] as string[],
         lastSuggestedSlot: undefined
       },
+      timezone,
+      locale,
       lastUpdated: new Date()
     };
-    sessions.set(sessionId, session);
+    await storage.saveVoiceSession(session);
   }
   return session;
 }
 
+// Turns, barge-ins and bookings on one session run one at a time, so none of them saves the
+// session over another's changes. Only serializes within this process.
+const sessionLocks = new Map<string, Promise<void>>();
+
+async function withSessionLock<T>(sessionId: string, run: () => Promise<T>): Promise<T> {
+  const previous = sessionLocks.get(sessionId) ?? Promise.resolve();
+  const result = previous.then(run);
+  const done = result.then(() => {}, () => {});
+  sessionLocks.set(sessionId, done);
+  try {
+    return await result;
+  } finally {
+    if (sessionLocks.get(sessionId) === done) sessionLocks.delete(sessionId);
+  }
+}
+
+// Load the latest copy of a session, change it and save it, under the session's lock
+async function updateSession(sessionId: string, update: (session: VoiceAgentSession) => void): Promise<void> {
+  await withSessionLock(sessionId, async () => {
+    const session = await storage.getVoiceSession(sessionId);
+    if (!session) return;
+    update(session);
+    await saveSession(session);
+  });
+}
+
+// Timezone slots are spoken in for this caller
+function getSessionTimeZone(session: VoiceAgentSession): string {
+  return session.timezone || DEFAULT_TIMEZONE;
+}
+
+// Persist session state at the end of a turn
+async function saveSession(session: VoiceAgentSession): Promise<void> {
+  session.lastUpdated = new Date();
+  await storage.saveVoiceSession(session);
+}
+
 // Add user message to session if final transcript
 function addUserMessage(session: VoiceAgentSession, text: string, final: boolean): void {
   if (final && text.trim()) {
@@ -242,35 +279,289 @@ function addUserMessage(session: VoiceAgentSession, text: string, final: boolean
   }
 }
 
+// Caller accepted the slot the agent suggested last
+function acceptSuggestedSlot(session: VoiceAgentSession): void {
+  if (!session.collectedData.lastSuggestedSlot) return;
+  session.collectedData.meetingPreference = session.collectedData.lastSuggestedSlot;
+  session.collectedData.selectedSlot = session.collectedData.suggestedSlot;
+}
+
+// Find the open slot closest to what the caller asked for ("Friday afternoon", "half past two"),
+// preferring the day being discussed. A slot at exactly the time they named is held and agreed;
+// otherwise the closest one is held and suggested. Returns true when a slot was agreed.
+async function resolvePreferredTime(session: VoiceAgentSession, request: TimeRequest, discussedDay?: Date): Promise<boolean> {
+  const data = session.collectedData;
+  const timeZone = getSessionTimeZone(session);
+  const slots = (await getAvailableSlots({ timeZone, sessionId: session.sessionId }))
+    .filter(slot => !data.rejectedSlots.includes(slot.label));
+  const slot = findClosestSlot(slots, request, timeZone, discussedDay);
+  console.log(`🕒 Caller asked for ${describeTimeRequest(request)} → ${slot?.label ?? 'no matching slot'}`);
+
+  // Reserve it straight away so nobody else can take it while we collect the email
+  if (!slot || !(await holdSlotForSession(session.sessionId, slot))) {
+    data.userPreferredTime = describeTimeRequest(request);
+    return false;
+  }
+
+  if (request.time !== undefined && matchesTimeRequest(slot.start, request, timeZone)) {
+    selectSlot(session, slot);
+    return true;
+  }
+
+  data.userPreferredTime = describeTimeRequest(request);
+  data.lastSuggestedSlot = slot.label;
+  data.suggestedSlot = toSlotSelection(slot);
+  return false;
+}
+
 // Add time slot context to messages
-async function addTimeSlotContext(session: VoiceAgentSession, messagesWithContext: any[]): Promise<void> {
-  if (session.collectedData.name && session.collectedData.email && !session.collectedData.meetingPreference && !session.collectedData.userPreferredTime) {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const availableSlots = await storage.getAvailableTimeSlots(tomorrow);
+async function addTimeSlotContext(session: VoiceAgentSession, messagesWithContext: any[], step: BookingFlowState): Promise<void> {
+  // New bookings negotiate a slot in the slot step; reschedules once the booking being moved is found;
+  // cancellations need no slots
+  const readyForSlots = isManagingBooking(session)
+    ? session.collectedData.intent === 'reschedule' && !!session.collectedData.existingBookingId
+    : step === 'slot';
+
+  if (readyForSlots && !session.collectedData.meetingPreference) {
+    // Slot labels are in the caller's local time so the agent speaks them correctly
+    const availableSlots = await getAvailableSlots({ timeZone: getSessionTimeZone(session), sessionId: session.sessionId });
 
     const rejectedSlots = session.collectedData.rejectedSlots || [];
-    const nonRejectedSlots = availableSlots.filter(slot => !rejectedSlots.includes(slot));
+    const nonRejectedSlots = availableSlots.filter(slot => !rejectedSlots.includes(slot.label));
+
+    // The slot the caller agreed to was booked by someone else before we could confirm it
+    const takenSlot = session.collectedData.takenSlot;
+    session.collectedData.takenSlot = undefined;
+    const takenNotice = takenSlot
+      ? `The slot ${takenSlot} was just taken by another caller. Apologize briefly before continuing. `
+      : '';
 
     if (nonRejectedSlots.length === 0) {
       messagesWithContext.push({
         role: 'system',
-        content: `No more available slots. Ask the user what time they prefer for tomorrow and note that you'll check availability.`
+        content: `${takenNotice}No more available slots in the coming days. Ask the user which day and time they prefer and note that you'll check availability.`
+      });
+    } else if (session.collectedData.userPreferredTime && session.collectedData.lastSuggestedSlot) {
+      messagesWithContext.push({
+        role: 'system',
+        content: `${takenNotice}The caller asked for ${session.collectedData.userPreferredTime}. The closest available slot is ${session.collectedData.lastSuggestedSlot}. Suggest it and ask if it works for them.`
+      });
+      session.collectedData.userPreferredTime = undefined;
+    } else if (session.collectedData.userPreferredTime) {
+      messagesWithContext.push({
+        role: 'system',
+        content: `${takenNotice}The user's preferred time (${session.collectedData.userPreferredTime}) is not available. Apologize briefly and offer the closest alternatives. Available slots are: ${summarizeSlots(nonRejectedSlots)}.`
       });
+      session.collectedData.userPreferredTime = undefined;
     } else if (rejectedSlots.length >= 2) {
       messagesWithContext.push({
         role: 'system',
-        content: `User has rejected multiple suggestions. Ask them what time they prefer for tomorrow. Available slots are: ${nonRejectedSlots.join(', ')}.`
+        content: `${takenNotice}User has rejected multiple suggestions. Ask them which day and time they prefer. Available slots are: ${summarizeSlots(nonRejectedSlots)}.`
       });
     } else {
-      const randomSlot = nonRejectedSlots[Math.floor(Math.random() * nonRejectedSlots.length)];
-      session.collectedData.lastSuggestedSlot = randomSlot;
+      // Hold the suggested slot; if another caller grabs it first, try a different one
+      const candidates = [...nonRejectedSlots];
+      let suggestedSlot: AvailableSlot | undefined;
+      for (let attempt = 0; attempt < 3 && candidates.length > 0 && !suggestedSlot; attempt++) {
+        const [randomSlot] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+        if (await holdSlotForSession(session.sessionId, randomSlot)) {
+          suggestedSlot = randomSlot;
+        }
+      }
+
+      if (suggestedSlot) {
+        session.collectedData.lastSuggestedSlot = suggestedSlot.label;
+        session.collectedData.suggestedSlot = toSlotSelection(suggestedSlot);
+        messagesWithContext.push({
+          role: 'system',
+          content: `${takenNotice}Suggest this specific time slot: ${suggestedSlot.label}. Ask if this time works for them.`
+        });
+      } else {
+        messagesWithContext.push({
+          role: 'system',
+          content: `${takenNotice}Slots are filling up quickly. Ask the user which day and time they prefer. Available slots are: ${summarizeSlots(nonRejectedSlots)}.`
+        });
+      }
+    }
+  }
+}
+
+// ============================================================================
+// RETURNING CALLERS - reschedule and cancel an existing booking
+// ============================================================================
+
+const RESCHEDULE_PATTERN = /\b(reschedule|re-schedule|move|change|push back|postpone|different time)\b/i;
+const CANCEL_PATTERN = /\b(cancel|call off|won't make it|can't make it)\b/i;
+const EXISTING_BOOKING_PATTERN = /\b(my|the|our|existing)\s+(\w+\s+)?(call|meeting|booking|appointment)\b/i;
+
+function isManagingBooking(session: VoiceAgentSession): boolean {
+  return session.collectedData.intent === 'reschedule' || session.collectedData.intent === 'cancel';
+}
+
+// "I need to move my Thursday call" / "cancel my booking"
+function detectManageIntent(text: string): 'reschedule' | 'cancel' | undefined {
+  if (CANCEL_PATTERN.test(text) && EXISTING_BOOKING_PATTERN.test(text)) return 'cancel';
+  if (/\breschedule\b/i.test(text)) return 'reschedule';
+  if (RESCHEDULE_PATTERN.test(text) && EXISTING_BOOKING_PATTERN.test(text)) return 'reschedule';
+  return undefined;
+}
+
+// Prefer the booking whose weekday the caller mentioned ("my Thursday call"), else the soonest
+function pickMentionedBooking(session: VoiceAgentSession, bookings: Booking[]): Booking {
+  const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  const userText = session.messages.filter(message => message.role === 'user').map(message => message.content.toLowerCase()).join(' ');
+  const timeZone = getSessionTimeZone(session);
+
+  for (const booking of bookings) {
+    const weekday = booking.meetingTime.toLocaleDateString('en-US', { timeZone, weekday: 'long' }).toLowerCase();
+    if (weekdays.includes(weekday) && userText.includes(weekday)) return booking;
+  }
+  return bookings[0];
+}
+
+// Back to a clean slate after a reschedule/cancel so the caller can book something new
+function resetManageState(session: VoiceAgentSession): void {
+  const data = session.collectedData;
+  data.intent = undefined;
+  data.existingBookingId = undefined;
+  data.existingBookingLabel = undefined;
+  data.meetingPreference = undefined;
+  data.selectedSlot = undefined;
+  data.lastSuggestedSlot = undefined;
+  data.suggestedSlot = undefined;
+  data.userPreferredTime = undefined;
+  data.rejectedSlots = [];
+}
+
+// Drive the reschedule/cancel flow: identify the caller by email, find their booking,
+// and apply the change once they confirm. Runs before the LLM call so it reports real outcomes.
+// Returns true when this turn was part of a reschedule/cancel flow.
+async function addBookingManagementContext(session: VoiceAgentSession, text: string, messagesWithContext: any[]): Promise<boolean> {
+  const data = session.collectedData;
+
+  // While negotiating a new booking, "move the meeting to 3" is about the suggested slot
+  const negotiatingNewBooking = !isManagingBooking(session) && !!(data.suggestedSlot || data.selectedSlot);
+
+  if (text.trim() && !data.bookingId && !negotiatingNewBooking) {
+    const detected = detectManageIntent(text);
+    if (detected && detected !== data.intent) {
+      if (isManagingBooking(session)) resetManageState(session);
+      data.intent = detected;
+    }
+  }
+  if (!isManagingBooking(session)) return false;
+
+  const action = data.intent === 'cancel' ? 'cancel' : 'reschedule';
+
+  // Identify the caller by the email they booked with
+  if (!data.email) {
+    const heard = text.trim() ? normalizeSpokenEmail(text, session.locale) : [];
+    if (heard.length > 0) {
+      data.email = heard[0].email;
+      data.emailCandidates = heard;
+    } else {
       messagesWithContext.push({
         role: 'system',
-        content: `Suggest this specific time slot: ${randomSlot}. Ask if this time works for them.`
+        content: `The caller wants to ${action} an existing booking. Ask for the email address they booked with (askFor "${action}_email").`
       });
+      return true;
+    }
+  }
+
+  if (!data.existingBookingId) {
+    let upcoming = await storage.getUpcomingBookingsByEmail(data.email, new Date());
+    // A misheard email may still match one of its other readings
+    for (const candidate of data.emailCandidates ?? []) {
+      if (upcoming.length > 0) break;
+      if (candidate.email === data.email) continue;
+      upcoming = await storage.getUpcomingBookingsByEmail(candidate.email, new Date());
+      if (upcoming.length > 0) data.email = candidate.email;
     }
+    if (upcoming.length === 0) {
+      messagesWithContext.push({
+        role: 'system',
+        content: `No upcoming booking was found for ${data.email}. Ask the caller to double-check the email (askFor "${action}_email") or offer to book a new call.`
+      });
+      data.email = undefined;
+      data.emailCandidates = undefined;
+      return true;
+    }
+
+    const booking = pickMentionedBooking(session, upcoming);
+    data.existingBookingId = booking.id;
+    data.existingBookingLabel = formatSlotLabel(booking.meetingTime, getSessionTimeZone(session));
+    const others = upcoming.length > 1 ? ` They have ${upcoming.length} upcoming bookings; this is the one they seem to mean.` : '';
+    messagesWithContext.push({
+      role: 'system',
+      content: action === 'cancel'
+        ? `Found the caller's booking on ${data.existingBookingLabel}.${others} Read it back and ask them to confirm cancelling it (askFor "cancel_confirmation").`
+        : `Found the caller's booking on ${data.existingBookingLabel}.${others} Tell them, then offer a new time.`
+    });
+    return true;
+  }
+
+  // Apply the change once the caller confirms
+  const confirming = data.lastAskFor === `${action}_confirmation` && text.trim();
+  if (!confirming) {
+    if (action === 'reschedule' && data.selectedSlot) {
+      messagesWithContext.push({
+        role: 'system',
+        content: `The caller picked ${data.meetingPreference}. Ask them to confirm moving their booking from ${data.existingBookingLabel} to ${data.meetingPreference} (askFor "reschedule_confirmation").`
+      });
+    }
+    return true;
+  }
+
+  if (!isAcceptance(text, session.locale) || hasRejection(text, session.locale)) {
+    messagesWithContext.push({
+      role: 'system',
+      content: `The caller did not confirm. Nothing was changed. Ask what they would like to do instead.`
+    });
+    return true;
+  }
+
+  const previousLabel = data.existingBookingLabel;
+  if (action === 'cancel') {
+    const existing = await storage.getBooking(data.existingBookingId);
+    if (existing) await bookingProvider.cancelBooking(existing);
+    console.log(`Booking ${data.existingBookingId} cancelled by voice agent`);
+    resetManageState(session);
+    messagesWithContext.push({
+      role: 'system',
+      content: `The booking on ${previousLabel} has been cancelled. Tell the caller and ask if they'd like to book a new time.`
+    });
+    return true;
   }
+
+  if (!data.selectedSlot) return true;
+
+  const newLabel = data.meetingPreference;
+  const existing = await storage.getBooking(data.existingBookingId);
+  const updated = existing && await bookingProvider.rescheduleBooking(
+    existing,
+    new Date(data.selectedSlot.start),
+    data.selectedSlot.hostId,
+    getSessionTimeZone(session)
+  );
+
+  if (!updated) {
+    // New slot was taken in the meantime - back to slot negotiation
+    data.takenSlot = newLabel;
+    data.meetingPreference = undefined;
+    data.selectedSlot = undefined;
+    data.lastSuggestedSlot = undefined;
+    data.suggestedSlot = undefined;
+    return true;
+  }
+
+  await storage.releaseSlotHolds(session.sessionId);
+  console.log(`Booking ${updated.id} rescheduled by voice agent`);
+  resetManageState(session);
+  messagesWithContext.push({
+    role: 'system',
+    content: `The booking has been moved from ${previousLabel} to ${newLabel}. Confirm the new time to the caller.`
+  });
+  return true;
 }
 
 // Parse LLM response with validation and fallback
@@ -280,7 +571,10 @@ function parseLLMResponse(assistantMessage: string, provider: string): {replyTex
 
   let parsedResponse: {replyText: string, askFor: string | null, readyToBook?: boolean};
   try {
-    parsedResponse = JSON.parse(assistantMessage);
+    // Without JSON mode (e.g. when tools are offered) models sometimes wrap the object in prose or code fences
+    const jsonStart = assistantMessage.indexOf('{');
+    const jsonEnd = assistantMessage.lastIndexOf('}');
+    parsedResponse = JSON.parse(jsonStart >= 0 && jsonEnd > jsonStart ? assistantMessage.slice(jsonStart, jsonEnd + 1) : assistantMessage);
     console.log("Parsed response:", parsedResponse);
 
     if (!parsedResponse.replyText) {
@@ -313,210 +607,273 @@ function parseLLMResponse(assistantMessage: string, provider: string): {replyTex
   };
 }
 
-// Extract collected data from user text
-function extractCollectedData(
-  session: VoiceAgentSession,
-  text: string,
-  parsedResponse: {replyText: string, askFor: string | null, readyToBook: boolean}
-): void {
-  if (!text.trim()) return;
-
-  // Extract name when agent is asking for email next
-  if (parsedResponse.askFor === "email" && !session.collectedData.name) {
-    const nameMatch = text.match(/(?:my name is |i'm |i am |call me )([a-zA-Z\s]+)/i);
-    session.collectedData.name = nameMatch ? nameMatch[1].trim() : text.trim();
-  }
-  // Extract email when agent just asked for it OR when we don't have it yet
-  else if ((parsedResponse.askFor === "meeting_preference" || parsedResponse.askFor === "email") && !session.collectedData.email) {
-    const extractedEmail = parseEmailFromVoiceText(text);
-    if (extractedEmail && isValidEmail(extractedEmail)) {
-      session.collectedData.email = extractedEmail;
+// Rejection and acceptance indicators for suggested slots and confirmations
+const REJECTION_PATTERNS = [
+  /^no$|^no[,.]|^no\s+that|^no\s+I|^no\s+it/i,
+  /\bno[,.\s]+(?:that|it|this)\s+(?:doesn't|won't|can't|isn't|doesn't|not)/i,
+  /doesn't work/i,
+  /won't work/i,
+  /can't work/i,
+  /not available/i,
+  /not possible/i,
+  /not happening/i,
+  /unavailable/i,
+  /isn't possible/i,
+  /isn't available/i,
+  /isn't good/i,
+  /aren't available/i,
+  /inconvenient/i,
+  /doesn't suit/i,
+  /not suitable/i,
+  /not free/i,
+  /not open/i,
+  /conflict/i,
+  /bad time/i,
+  /too early/i,
+  /too late/i,
+  /not good/i,
+  /terrible/i,
+  /awful/i,
+  /impossible/i,
+  /out of the question/i,
+  /(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock))\s+(?:doesn't|won't|can't|isn't|not)/i,
+  /(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock))\s+(?:is|would\s+be)\s+(?:bad|terrible|awful|impossible)/i
+];
+
+const ACCEPTANCE_WORDS = ['yes', 'that works', 'sounds good', 'perfect', 'great', 'sure', 'works for me', "let's do it", 'good', 'fine', 'okay', 'ok', 'that time is fine', 'excellent', 'wonderful'];
+
+// English words count in every locale - callers often mix them in
+function isAcceptance(text: string, locale?: Locale | null): boolean {
+  const userResponse = text.toLowerCase().trim();
+  return ACCEPTANCE_WORDS.some(word => userResponse.includes(word)) || isLocalizedAcceptance(userResponse, locale);
+}
+
+function hasRejection(text: string, locale?: Locale | null): boolean {
+  const userResponse = text.toLowerCase().trim();
+  return REJECTION_PATTERNS.some(pattern => pattern.test(userResponse)) || isBusyRejection(userResponse) ||
+    isLocalizedRejection(userResponse, locale);
+}
+
+// A time the caller offers instead of the one they turned down: "no, but how about Friday?"
+const ALTERNATIVE_TIME_PATTERN = /\b(?:but|maybe|how about|what about|instead|prefer|rather|could we do|can we do|can you do)\b(.*)$/i;
+
+// Handle the caller's answer to a suggested slot: rejection (maybe with an alternative time),
+// a day or time of their own, or acceptance
+async function negotiateSlot(session: VoiceAgentSession, text: string): Promise<void> {
+  const data = session.collectedData;
+  const timeZone = getSessionTimeZone(session);
+  const locale = session.locale;
+  const suggested = data.suggestedSlot ? new Date(data.suggestedSlot.start) : undefined;
+  const request = parseTimeRequest(text, { timeZone, locale });
+  // "Thursday works" about the Thursday slot we suggested is an acceptance
+  const aboutSuggested = !!request && !!suggested && matchesTimeRequest(suggested, request, timeZone);
+
+  if (hasRejection(text, locale)) {
+    // User is rejecting - record the rejection
+    if (data.lastSuggestedSlot && !data.rejectedSlots.includes(data.lastSuggestedSlot)) {
+      data.rejectedSlots.push(data.lastSuggestedSlot);
+    }
+    data.lastSuggestedSlot = undefined;
+    data.suggestedSlot = undefined;
+
+    // "3pm doesn't work" names the rejected slot, not an alternative
+    const alternative = text.match(ALTERNATIVE_TIME_PATTERN)?.[1] ?? localizedAlternative(text, locale);
+    const alternativeRequest = (alternative && parseTimeRequest(alternative, { timeZone, locale })) || (aboutSuggested ? undefined : request);
+    if (alternativeRequest) {
+      await resolvePreferredTime(session, alternativeRequest, suggested);
     }
+  } else if (request && !aboutSuggested) {
+    await resolvePreferredTime(session, request, suggested);
+  } else if (aboutSuggested || isAcceptance(text, locale)) {
+    acceptSuggestedSlot(session);
   }
-  // Handle meeting preference responses and capture acceptance at any stage
-  else if (session.collectedData.email && !session.collectedData.meetingPreference) {
-    const userResponse = text.toLowerCase().trim();
-
-    // Check for rejection and acceptance indicators
-    const rejectionPatterns = [
-      /^no$|^no[,.]|^no\s+that|^no\s+I|^no\s+it/i,
-      /\bno[,.\s]+(?:that|it|this)\s+(?:doesn't|won't|can't|isn't|doesn't|not)/i,
-      /doesn't work/i,
-      /won't work/i,
-      /can't work/i,
-      /not available/i,
-      /not possible/i,
-      /not happening/i,
-      /unavailable/i,
-      /isn't possible/i,
-      /isn't available/i,
-      /isn't good/i,
-      /aren't available/i,
-      /inconvenient/i,
-      /doesn't suit/i,
-      /not suitable/i,
-      /not free/i,
-      /not open/i,
-      /conflict/i,
-      /bad time/i,
-      /too early/i,
-      /too late/i,
-      /not good/i,
-      /terrible/i,
-      /awful/i,
-      /impossible/i,
-      /out of the question/i,
-      /(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock))\s+(?:doesn't|won't|can't|isn't|not)/i,
-      /(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock))\s+(?:is|would\s+be)\s+(?:bad|terrible|awful|impossible)/i
-    ];
-
-    const acceptanceWords = ['yes', 'that works', 'sounds good', 'perfect', 'great', 'sure', 'works for me', "let's do it", 'good', 'fine', 'okay', 'ok', 'that time is fine', 'excellent', 'wonderful'];
-
-    const hasRejection = rejectionPatterns.some(pattern => pattern.test(userResponse)) || isBusyRejection(userResponse);
-    const hasAcceptance = acceptanceWords.some(word => userResponse.includes(word));
-
-    const parsedTime = parseTimeFromText(text);
-
-    if (hasRejection) {
-      // User is rejecting - record the rejection
-      if (session.collectedData.lastSuggestedSlot && !session.collectedData.rejectedSlots.includes(session.collectedData.lastSuggestedSlot)) {
-        session.collectedData.rejectedSlots.push(session.collectedData.lastSuggestedSlot);
-      }
-      session.collectedData.lastSuggestedSlot = undefined;
-
-      // Check if they provided an alternative time
-      const alternativePatterns = [
-        /but\s+.*?(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock|in the morning|in the afternoon|in the evening))/i,
-        /maybe\s+.*?(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock|in the morning|in the afternoon|in the evening))/i,
-        /how about\s+.*?(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock|in the morning|in the afternoon|in the evening))/i,
-        /instead\s+.*?(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock|in the morning|in the afternoon|in the evening))/i,
-        /prefer\s+.*?(\d{1,2}(?::\d{2})?\s?(?:am|pm|o'clock|in the morning|in the afternoon|in the evening))/i
-      ];
-
-      let alternativeTime = null;
-      for (const pattern of alternativePatterns) {
-        const match = text.match(pattern);
-        if (match) {
-          alternativeTime = parseTimeFromText(match[1]);
-          break;
-        }
-      }
+}
 
-      if (alternativeTime) {
-        session.collectedData.meetingPreference = alternativeTime;
-      }
-    } else if (hasAcceptance && !hasRejection) {
-      // User accepted the suggested time
-      if (session.collectedData.lastSuggestedSlot) {
-        session.collectedData.meetingPreference = session.collectedData.lastSuggestedSlot;
-      }
-    } else if (parsedTime && !hasRejection) {
-      // User provided a specific time without rejection context
-      const timeContext = text.substring(Math.max(0, text.indexOf(parsedTime.toLowerCase()) - 20), text.indexOf(parsedTime.toLowerCase()) + parsedTime.length + 20);
-      const negativeContext = ['not', "doesn't", "won't", 'bad', 'terrible', 'awful'].some(word => timeContext.includes(word));
+// Name from "my name is Jane Doe" / "I'm Jane" (or "me llamo…", "मेरा नाम… है"), or a short bare answer like "Jane Doe"
+function extractName(text: string, locale?: Locale | null): string | undefined {
+  const nameMatch = text.match(/(?:my name is |i'm |i am |call me )([a-zA-Z\s]+)/i);
+  if (nameMatch) return nameMatch[1].trim();
+  const localizedName = extractLocalizedName(text, locale);
+  if (localizedName) return localizedName;
+  const words = text.trim().replace(/[.!]+$/, '').split(/\s+/);
+  return words.length <= 4 && !text.includes('?') ? words.join(' ') : undefined;
+}
 
-      if (!negativeContext) {
-        session.collectedData.meetingPreference = parsedTime;
+// Pull the detail the agent asked for out of the caller's words, based on the booking step
+// the turn started in (without tool calling)
+async function extractCallerDetails(session: VoiceAgentSession, text: string, state: BookingFlowState): Promise<void> {
+  const data = session.collectedData;
+  switch (state) {
+    case 'name':
+      data.name = extractName(text, session.locale) ?? data.name;
+      break;
+    case 'slot':
+      await negotiateSlot(session, text);
+      break;
+    case 'email':
+    case 'confirmation': {
+      // While confirming, a new email is a correction
+      const heard = normalizeSpokenEmail(text, session.locale);
+      if (heard.length > 0) {
+        data.email = heard[0].email;
+        data.emailCandidates = heard;
       }
+      break;
     }
   }
-  // Handle user's preferred time
-  else if ((parsedResponse.askFor === "user_preferred_time" || parsedResponse.askFor === "confirmation") && !session.collectedData.meetingPreference) {
-    const parsedTime = parseTimeFromText(text);
-    if (parsedTime) {
-      session.collectedData.userPreferredTime = parsedTime;
-      session.collectedData.meetingPreference = parsedTime;
-    }
-  }
+}
 
-  // Detect acceptance based on assistant's askFor state transition
-  if (parsedResponse.askFor === 'confirmation' &&
-      session.collectedData.lastSuggestedSlot &&
-      !session.collectedData.meetingPreference) {
-    session.collectedData.meetingPreference = session.collectedData.lastSuggestedSlot;
+// Spoken emails: tell the agent what the caller's words sound like and which parts to double-check
+// when reading the email back. With tool calling the model records it through set_email.
+function addEmailContext(session: VoiceAgentSession, messagesWithContext: ChatMessage[], callerText: string, step: BookingFlowState, useTools: boolean): void {
+  if ((step !== 'email' && step !== 'confirmation') || !callerText.trim()) return;
+  const heard = normalizeSpokenEmail(callerText, session.locale);
+  if (heard.length === 0) return;
+
+  const data = session.collectedData;
+  if (useTools) {
+    data.emailCandidates = heard;
+    messagesWithContext.push({
+      role: 'system',
+      content: `${describeHeardEmail(heard)} Record the best reading with set_email unless the caller's words say otherwise, then read it back and ask the caller to confirm just the unsure parts.`
+    });
+  } else if (heard[0].email === data.email && needsEmailCheck(heard[0])) {
+    messagesWithContext.push({
+      role: 'system',
+      content: `${describeHeardEmail(heard)} When reading the email back, ask the caller to confirm just the unsure parts.`
+    });
   }
 }
 
-// Generate TTS audio with caching (5-10ms cached, 75-135ms uncached)
-async function generateTTS(text: string): Promise<string | undefined> {
-  if (!text || !ELEVENLABS_API_KEY) return undefined;
+interface TurnContext {
+  messagesWithContext: ChatMessage[];
+  managingBooking: boolean;
+  useTools: boolean;
+  callerText: string;
+  flowAtStart: BookingFlow;
+  // Where the booking flow stands once the caller's words are taken into account
+  step: BookingFlowState;
+}
 
-  const startTime = Date.now();
+// Everything before the LLM call: caller details, reschedule/cancel handling, slots and the current step
+async function prepareTurn(session: VoiceAgentSession, text: string, final: boolean): Promise<TurnContext> {
+  const callerText = final ? text : '';
+  const messagesWithContext: ChatMessage[] = [...session.messages];
+  const managingBooking = await addBookingManagementContext(session, callerText, messagesWithContext);
+  const flowAtStart = session.collectedData.flow ?? createBookingFlow();
 
-  // Check cache first
-  const cached = TTS_CACHE.get(text);
-  if (cached) {
-    cached.hits++;
-    const latency = Date.now() - startTime;
-    console.log(`✅ TTS cache HIT (${latency}ms): "${text.substring(0, 50)}..." [${cached.hits} hits]`);
-    return cached.audioUrl;
+  if (managingBooking) {
+    await addTimeSlotContext(session, messagesWithContext, flowAtStart.state);
+    return { messagesWithContext, managingBooking, useTools: false, callerText, flowAtStart, step: flowAtStart.state };
   }
 
-  // Cache miss - generate new TTS
-  console.log(`🔄 TTS cache MISS: "${text.substring(0, 50)}..."`);
-  const audioUrl = await generateTTSInternal(text);
+  // New bookings are collected through tool calls when enabled; booked and handed-off calls need none
+  const useTools = AGENT_TOOLS_ENABLED && flowAtStart.state !== 'booked' && flowAtStart.state !== 'handoff';
+  if (!useTools && callerText.trim()) {
+    await extractCallerDetails(session, callerText, flowAtStart.state);
+  }
 
-  if (audioUrl) {
-    const latency = Date.now() - startTime;
-    console.log(`✅ TTS generated (${latency}ms)`);
-
-    // Cache for future use if it's a reasonable length (avoid caching huge dynamic text)
-    if (text.length < 200) {
-      TTS_CACHE.set(text, {
-        text,
-        audioUrl,
-        generatedAt: Date.now(),
-        hits: 0
-      });
-      console.log(`💾 Added to cache: "${text.substring(0, 50)}..."`);
-    }
+  const step = advanceBookingFlow(flowAtStart, session.collectedData, callerText).state;
+  if (useTools) {
+    addToolContext(session, messagesWithContext, getSessionTimeZone(session));
+  } else {
+    await addTimeSlotContext(session, messagesWithContext, step);
   }
+  addEmailContext(session, messagesWithContext, callerText, step, useTools);
+  messagesWithContext.push({ role: 'system', content: describeBookingStep(step) });
 
-  return audioUrl;
+  return { messagesWithContext, managingBooking, useTools, callerText, flowAtStart, step };
 }
 
-// Helper function for LLM calls with Groq primary and OpenAI fallback
-async function createChatCompletion(messages: any[]) {
-  const baseParams = {
-    messages,
-    temperature: 0.7,
-    max_tokens: 200,
-    response_format: { type: "json_object" as const },
-  };
+// Everything after the LLM replied: advance the booking flow and hold the reply to it.
+// toolReadyToBook is set when the turn ran with agent tools (confirm_booking succeeded).
+async function finishTurn(
+  session: VoiceAgentSession,
+  turn: TurnContext,
+  parsedResponse: {replyText: string, askFor: string | null, readyToBook: boolean},
+  toolReadyToBook: boolean | undefined,
+  bargeIn?: TurnRecord
+): Promise<void> {
+  const data = session.collectedData;
+
+  // The caller talked over this reply, so nothing it asks or decides takes effect
+  if (bargeIn?.cancelled) {
+    console.log(`🛑 Turn cancelled - booking state of ${session.sessionId} left as it was`);
+    parsedResponse.readyToBook = false;
+    return;
+  }
 
-  try {
-    // Try Groq first (much faster)
-    console.log("Attempting Groq LLM call...");
-    const groqCompletion = await groq.chat.completions.create({
-      model: "llama-3.1-8b-instant",
-      ...baseParams,
-    });
+  if (turn.managingBooking) {
+    // Reschedules and cancellations are applied server-side - never trigger a new booking
+    parsedResponse.readyToBook = false;
+    if (data.existingBookingId && !data.meetingPreference && turn.callerText.trim()) {
+      await negotiateSlot(session, turn.callerText);
+      // The agent moved on to confirming, so the caller accepted the suggested slot
+      if (parsedResponse.askFor === 'reschedule_confirmation' && !data.meetingPreference) acceptSuggestedSlot(session);
+    }
+    data.lastAskFor = parsedResponse.askFor;
+    return;
+  }
 
-    console.log("✅ Groq call successful");
-    return {
-      content: groqCompletion.choices[0]?.message?.content,
-      provider: "groq"
+  // The agent moved on from the slot without our patterns catching the caller's acceptance
+  if (!turn.useTools && turn.step === 'slot' && !data.meetingPreference &&
+      (parsedResponse.askFor === 'email' || parsedResponse.askFor === 'confirmation')) {
+    acceptSuggestedSlot(session);
+  }
+
+  const flow = advanceBookingFlow(turn.flowAtStart, data, turn.callerText);
+  if (flow.state !== turn.flowAtStart.state) {
+    console.log(`🧭 Booking flow ${session.sessionId}: ${turn.flowAtStart.state} → ${flow.state}`);
+  }
+  if (flow.state === 'handoff' && turn.flowAtStart.state !== 'handoff') {
+    // A lead for the team to follow up on
+    const payload: Record<string, any> = {
+      collectedData: data,
+      reason: wantsHuman(turn.callerText) ? 'caller_request' : 'stuck',
+      fromState: turn.flowAtStart.state
     };
-  } catch (groqError) {
-    console.warn("⚠️ Groq call failed, falling back to OpenAI:", groqError);
+    await storage.createSessionEvent({ sessionId: session.sessionId, type: SESSION_HANDOFF, payload });
+    console.log(`🙋 Session ${session.sessionId} handed off to the team (${payload.reason})`);
+  }
+  data.flow = flow;
 
-    try {
-      // Fallback to OpenAI
-      console.log("Attempting OpenAI fallback...");
-      const openaiCompletion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        ...baseParams,
-      });
+  const askFor = checkAskFor(flow.state, parsedResponse.askFor);
+  if (!askFor.valid) {
+    console.warn(`⚠️ LLM askFor "${parsedResponse.askFor}" doesn't match booking step "${flow.state}", using "${askFor.askFor}"`);
+  }
+  parsedResponse.askFor = askFor.askFor;
+  data.lastAskFor = askFor.askFor;
 
-      console.log("✅ OpenAI fallback successful");
-      return {
-        content: openaiCompletion.choices[0]?.message?.content,
-        provider: "openai"
-      };
-    } catch (openaiError) {
-      console.error("❌ Both Groq and OpenAI failed:", openaiError);
-      throw new Error("Both LLM providers failed");
+  // Only book once the details were read back to the caller, i.e. the turn started in confirmation
+  const wantsToBook = toolReadyToBook ?? parsedResponse.readyToBook;
+  if (wantsToBook && !canBook(turn.flowAtStart.state)) {
+    console.warn(`⚠️ Ignoring readyToBook in booking step "${turn.flowAtStart.state}"`);
+  }
+  parsedResponse.readyToBook = wantsToBook && canBook(turn.flowAtStart.state);
+}
+
+// Generate TTS audio through the disk cache (5-10ms cached, 75-135ms uncached). Replies naming the
+// caller or a time reuse the cached wording around those values. Returns the short /api/tts/audio
+// URL the client fetches the clip from.
+async function generateTTS(text: string, session: VoiceAgentSession): Promise<string | undefined> {
+  if (!text) return undefined;
+
+  const startTime = Date.now();
+  try {
+    const { name, email } = session.collectedData;
+    const { entry, cached, spliced } = await getOrSynthesizeTemplatedTTS(text, { locale: session.locale }, { name, email });
+    const latency = Date.now() - startTime;
+    if (cached) {
+      console.log(`✅ TTS cache HIT (${latency}ms): "${text.substring(0, 50)}..." [${entry.hits} hits]`);
+    } else if (spliced) {
+      console.log(`✂️ TTS spliced from ${spliced.segments} segments (${spliced.cachedSegments} cached) in ${latency}ms: "${text.substring(0, 50)}..."`);
+    } else {
+      console.log(`🔄 TTS cache MISS - generated in ${latency}ms: "${text.substring(0, 50)}..."`);
     }
+    return ttsAudioUrl(entry.hash);
+  } catch (error) {
+    console.error('TTS generation error:', error);
+    return undefined;
   }
 }
 
@@ -524,36 +881,46 @@ async function createChatCompletion(messages: any[]) {
 // MAIN VOICE AGENT PROCESSING (uses shared helpers)
 // ============================================================================
 
-async function processVoiceAgentRequest(requestData: VoiceAgentRequest): Promise<VoiceAgentResponse> {
-  const { sessionId, text, final } = requestData;
+// bargeIn is set for WebSocket turns the caller can cancel by talking over the agent
+function processVoiceAgentRequest(requestData: VoiceAgentRequest, bargeIn?: TurnRecord): Promise<VoiceAgentResponse> {
+  return withSessionLock(requestData.sessionId, () => runVoiceAgentTurn(requestData, bargeIn));
+}
+
+async function runVoiceAgentTurn(requestData: VoiceAgentRequest, bargeIn?: TurnRecord): Promise<VoiceAgentResponse> {
+  const { sessionId, text, final, timezone, locale } = requestData;
 
   console.log(`Voice Agent - Session: ${sessionId}, Text length: ${text.length}, Final: ${final}`);
 
   // Use shared helper functions
-  const session = getOrCreateSession(sessionId);
+  const session = await getOrCreateSession(sessionId, timezone, locale);
   addUserMessage(session, text, final);
 
   // Prepare messages with context
-  const messagesWithContext = [...session.messages];
-  await addTimeSlotContext(session, messagesWithContext);
+  const turn = await prepareTurn(session, text, final);
 
   // Call LLM
-  const llmResponse = await createChatCompletion(messagesWithContext);
-  if (!llmResponse.content) {
+  const llmResponse: ChatCompletion & { readyToBook?: boolean } = turn.useTools
+    ? await runAgentTurn(session, turn.messagesWithContext, {
+        timeZone: getSessionTimeZone(session),
+        canBook: canBook(turn.flowAtStart.state),
+        isCancelled: () => !!bargeIn?.cancelled
+      })
+    : await createChatCompletion(turn.messagesWithContext);
+  if (!llmResponse.content && !bargeIn?.cancelled) {
     throw new Error(`No response from LLM provider (${llmResponse.provider})`);
   }
 
-  // Parse response
-  const parsedResponse = parseLLMResponse(llmResponse.content, llmResponse.provider);
-
-  // Extract collected data
-  extractCollectedData(session, text, parsedResponse);
+  // Parse response and advance the booking flow
+  const parsedResponse = parseLLMResponse(llmResponse.content ?? '', llmResponse.provider);
+  await finishTurn(session, turn, parsedResponse, llmResponse.readyToBook, bargeIn);
 
   // Add assistant response to conversation
-  session.messages.push({ role: 'assistant', content: llmResponse.content });
+  session.messages.push({ role: 'assistant', content: llmResponse.content ?? '' });
+  recordReply(session, bargeIn);
+  await saveSession(session);
 
   // Generate TTS audio
-  const audioUrl = await generateTTS(parsedResponse.replyText);
+  const audioUrl = bargeIn?.cancelled ? undefined : await generateTTS(parsedResponse.replyText, session);
 
   // Build final response
   const finalResponse = {
@@ -577,48 +944,15 @@ async function processVoiceAgentRequest(requestData: VoiceAgentRequest): Promise
   return finalResponse;
 }
 
-// Enhanced time parsing function to handle various formats
-function parseTimeFromText(text: string): string | null {
-  // Multiple regex patterns to catch different time formats
-  const timePatterns = [
-    /(\d{1,2}:\d{2}\s?(AM|PM))/i,           // "3:00 PM", "3:30 am"
-    /(\d{1,2}\s?(AM|PM))/i,                 // "3PM", "3 pm", "3 am"
-    /(\d{1,2})\s?(?:o'clock|oclock)/i,      // "3 o'clock", "3oclock"
-    /(\d{1,2})\s?(?:in the morning)/i,      // "9 in the morning"
-    /(\d{1,2})\s?(?:in the afternoon)/i,    // "3 in the afternoon"
-    /(\d{1,2})\s?(?:in the evening)/i,      // "6 in the evening"
-    /(\d{1,2})\s?(?:at night)/i             // "8 at night"
-  ];
-  
-  for (const pattern of timePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      let timeStr = match[0];
-      let hour = parseInt(match[1]);
-      
-      // Convert natural language to standard format
-      if (timeStr.includes('morning') && hour >= 1 && hour <= 12) {
-        return `${hour}:00 AM`;
-      } else if (timeStr.includes('afternoon') && hour <= 12) {
-        const adjustedHour = hour === 12 ? 12 : hour;
-        return `${adjustedHour}:00 PM`;
-      } else if (timeStr.includes('evening') && hour <= 12) {
-        const adjustedHour = hour === 12 ? 12 : hour;
-        return `${adjustedHour}:00 PM`;
-      } else if (timeStr.includes('night') && hour <= 12) {
-        const adjustedHour = hour === 12 ? 12 : hour;
-        return `${adjustedHour}:00 PM`;
-      } else if (timeStr.match(/\d{1,2}\s?(AM|PM)/i)) {
-        // Handle "3PM" format
-        const ampm = timeStr.toUpperCase().includes('AM') ? 'AM' : 'PM';
-        return `${hour}:00 ${ampm}`;
-      } else if (timeStr.includes(':')) {
-        // Already in good format
-        return match[0];
-      }
-    }
-  }
-  return null;
+// Barge-in: a running turn shortens its reply when it saves; a finished one is shortened here
+async function cancelVoiceAgentTurn(sessionId: string, messageId: string, heardText: string): Promise<void> {
+  const turn = cancelTurn(sessionId, messageId, heardText);
+  if (!turn) return;
+  console.log(`🛑 Caller interrupted turn ${messageId} of session ${sessionId}`);
+  if (turn.replyIndex === undefined) return;
+
+  const replyIndex = turn.replyIndex;
+  await updateSession(sessionId, session => truncateReply(session, replyIndex, heardText));
 }
 
 // Dedicated function to handle "busy" with comprehensive negation detection
@@ -637,159 +971,22 @@ function isBusyRejection(text: string): boolean {
   return true;
 }
 
-// Advanced email parsing from voice input - handles "at", "dot" patterns
-function parseEmailFromVoiceText(text: string): string | null {
-  let normalized = text.toLowerCase().trim();
-
-  console.log(`[EMAIL PARSER] Input: "${text}"`);
+// Admin endpoints need "Authorization: Bearer <ADMIN_API_KEY>" and are disabled without ADMIN_API_KEY
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
 
-  // Step 1: Check if it's already a valid typed email (bypass voice parsing)
-  const directEmailMatch = normalized.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
-  if (directEmailMatch) {
-    console.log(`[EMAIL PARSER] Direct email found: "${directEmailMatch[1]}"`);
-    return directEmailMatch[1].toLowerCase();
-  }
-
-  // Step 2: Remove common prefixes
-  normalized = normalized.replace(/^(my\s+email\s+(address\s+)?is\s+|email\s+is\s+|it'?s\s+|the\s+email\s+is\s+)/i, '');
-
-  // Step 3: Convert voice patterns to email format
-  // Handle "at" and "at the rate" as @ delimiter
-  let emailText = normalized;
-
-  // Replace "at the rate" with @
-  emailText = emailText.replace(/\s+at\s+the\s+rate\s+/gi, ' @ ');
-  // Replace standalone "at" with @ (but be careful not to match words containing "at")
-  emailText = emailText.replace(/\s+at\s+/gi, ' @ ');
-
-  // Handle "dot" as period in BOTH username and domain
-  // This is critical: "john.doe at gmail.com" should work
-  emailText = emailText.replace(/\s+dot\s+/gi, '.');
-  emailText = emailText.replace(/\s+period\s+/gi, '.');
-
-  // Handle special characters in username
-  emailText = emailText.replace(/\s+underscore\s+/gi, '_');
-  emailText = emailText.replace(/\s+(dash|hyphen)\s+/gi, '-');
-
-  console.log(`[EMAIL PARSER] After pattern conversion: "${emailText}"`);
-
-  // Step 4: Check if we now have a @ symbol
-  if (!emailText.includes('@')) {
-    console.log('[EMAIL PARSER] No @ symbol found after conversion');
-    return null;
-  }
-
-  // Step 5: Split by @ to get username and domain parts
-  const parts = emailText.split('@');
-  if (parts.length !== 2) {
-    console.log(`[EMAIL PARSER] Invalid @ split: found ${parts.length} parts`);
-    return null;
-  }
-
-  let [usernamePart, domainPart] = parts;
-
-  // Step 6: Clean up username
-  let username = usernamePart.trim();
-  // Remove filler words
-  username = username.replace(/\s+(the|a|an|and|or|to|of|in|on|for)\s+/gi, '');
-  // Remove all remaining spaces
-  username = username.replace(/\s+/g, '');
-  // Keep only valid email characters
-  username = username.replace(/[^a-z0-9._-]/g, '');
-
-  // Step 7: Clean up domain
-  let domain = domainPart.trim();
-
-  // Handle common domain variations and add .com if missing
-  const domainMap: { [key: string]: string } = {
-    'gmail': 'gmail.com',
-    'geemail': 'gmail.com',
-    'g mail': 'gmail.com',
-    'yahoo': 'yahoo.com',
-    'ya hoo': 'yahoo.com',
-    'outlook': 'outlook.com',
-    'hotmail': 'hotmail.com',
-    'hot mail': 'hotmail.com',
-    'icloud': 'icloud.com',
-    'i cloud': 'icloud.com',
-    'protonmail': 'protonmail.com',
-    'proton mail': 'protonmail.com'
-  };
-
-  // Remove spaces from domain
-  domain = domain.replace(/\s+/g, '');
-
-  // Check if domain needs expansion (e.g., "gmail" → "gmail.com")
-  if (domainMap[domain]) {
-    domain = domainMap[domain];
-    console.log(`[EMAIL PARSER] Expanded domain to: ${domain}`);
-  }
-
-  // If domain doesn't have a dot and isn't in our map, add .com
-  if (!domain.includes('.')) {
-    // Check if it's a known domain without extension
-    const knownDomains = ['gmail', 'yahoo', 'outlook', 'hotmail', 'icloud'];
-    if (knownDomains.some(d => domain.startsWith(d))) {
-      domain = domain + '.com';
-      console.log(`[EMAIL PARSER] Added .com to domain: ${domain}`);
-    }
-  }
-
-  // Clean domain - keep only valid characters
-  domain = domain.replace(/[^a-z0-9.-]/g, '');
-
-  // Step 8: Validate parts
-  if (username.length === 0) {
-    console.log('[EMAIL PARSER] Username is empty after processing');
-    return null;
-  }
-
-  if (!domain.includes('.')) {
-    console.log('[EMAIL PARSER] Domain missing TLD');
-    return null;
-  }
-
-  // Step 9: Construct final email
-  const email = `${username}@${domain}`;
-  console.log(`[EMAIL PARSER] Constructed email: "${email}"`);
-
-  // Final validation
-  if (isValidEmail(email)) {
-    console.log(`[EMAIL PARSER] ✅ Valid email: "${email}"`);
-    return email;
-  }
-
-  console.log('[EMAIL PARSER] ❌ Failed validation');
-  return null;
-}
-
-// Validate email format and common domains
-function isValidEmail(email: string): boolean {
-  // RFC 5322 simplified regex
-  const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-
-  if (!emailRegex.test(email)) {
-    return false;
-  }
-
-  // Check for at least one character before @
-  const [localPart, domainPart] = email.split('@');
-  if (!localPart || localPart.length < 1) {
-    return false;
-  }
-
-  // Check domain has at least one dot
-  if (!domainPart || !domainPart.includes('.')) {
-    return false;
+function requireAdminKey(req: Request, res: Response, next: NextFunction): void {
+  if (!ADMIN_API_KEY) {
+    res.status(503).json({ error: "Service Unavailable", message: "Admin API disabled: ADMIN_API_KEY is not set" });
+    return;
   }
 
-  // Check TLD is at least 2 characters
-  const tld = domainPart.split('.').pop();
-  if (!tld || tld.length < 2) {
-    return false;
+  const expected = Buffer.from(`Bearer ${ADMIN_API_KEY}`);
+  const provided = Buffer.from(req.headers.authorization ?? "");
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    res.status(401).json({ error: "Unauthorized", message: "Admin API key required" });
+    return;
   }
-
-  return true;
+  next();
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -798,7 +995,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const cacheStartTime = Date.now();
   await preGenerateTTSCache();
   const cacheEndTime = Date.now();
-  console.log(`✅ TTS cache pre-generated: ${TTS_CACHE.size} phrases in ${cacheEndTime - cacheStartTime}ms`);
+  console.log(`✅ TTS cache pre-generated: ${getTTSCacheSize()} clips in ${cacheEndTime - cacheStartTime}ms`);
+
+  // Expire idle voice sessions in the background
+  startSessionSweeper();
+
+  // Send booking confirmations and reminders from the scheduled job table
+  startNotificationWorker();
 
   // put application routes here
   // prefix all routes with /api
@@ -831,6 +1034,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Voice session stats endpoint (active vs expired/abandoned sessions)
+  app.get("/api/sessions/stats", async (_req, res) => {
+    try {
+      const stats = await getSessionStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Session stats error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // LLM provider chain with circuit breaker state
+  app.get("/api/llm/providers", (_req, res) => {
+    res.json(getLLMProviderStatus());
+  });
+
+  // Active booking provider for the site's "book a call" buttons
+  app.get("/api/booking/provider", (_req, res) => {
+    const info: BookingProviderInfo = {
+      provider: bookingProvider.name,
+      schedulingUrl: bookingProvider.getSchedulingUrl()
+    };
+    res.json(info);
+  });
+
+  // Open slots for the site's own booking form, labelled in the visitor's timezone
+  app.get("/api/availability", async (req, res) => {
+    try {
+      const requested = typeof req.query.timezone === 'string' ? req.query.timezone : undefined;
+      const timeZone = requested && isValidTimeZone(requested) ? requested : DEFAULT_TIMEZONE;
+      const slots: SlotOption[] = (await getAvailableSlots({ timeZone })).map(toSlotOption);
+      res.json(slots);
+    } catch (error) {
+      console.error("Availability error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Booking endpoint 
   app.post("/api/book", async (req, res) => {
     try {
@@ -839,128 +1086,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`Booking request - Name: [REDACTED], Email: [REDACTED]`);
 
-      // Parse meeting time from session data
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      let meetingTime = tomorrow;
-      
       // Try to parse the selected time from request or find active session
       let selectedTime = validatedData.meetingTime;
       
-      // If no time in request, find the session for this booking
-      if (!selectedTime) {
-        // Find session by name/email match (simplified lookup)
-        for (const [sessionId, sess] of Array.from(sessions.entries())) {
-          if (sess.collectedData.name === name && sess.collectedData.email === email && sess.collectedData.meetingPreference) {
-            selectedTime = sess.collectedData.meetingPreference;
-            break;
-          }
-        }
+      // Find the session for this booking - prefer the caller's own session, fall back to a name/email match
+      const sess = validatedData.sessionId
+        ? await storage.getVoiceSession(validatedData.sessionId)
+        : await storage.findVoiceSessionByContact(name, email);
+
+      // Wall-clock times are interpreted in the caller's timezone, never the server's
+      const timeZone = validatedData.timezone || sess?.timezone || DEFAULT_TIMEZONE;
+
+      // If no time in request, use the one negotiated in the session
+      if (!selectedTime && sess?.collectedData.meetingPreference) {
+        selectedTime = sess.collectedData.meetingPreference;
       }
-      
-      if (selectedTime) {
-        const timeMatch = selectedTime.match(/(\d{1,2}):(\d{2})\s?(AM|PM)/i);
+
+      const selectedSlot = !validatedData.meetingTime ? sess?.collectedData.selectedSlot : undefined;
+      let hostId = DEFAULT_HOST_ID;
+      let meetingTime: Date;
+
+      if (selectedSlot) {
+        // Slot negotiated against the availability engine - exact instant and host
+        meetingTime = new Date(selectedSlot.start);
+        hostId = selectedSlot.hostId;
+      } else if (selectedTime && /^\d{4}-\d{2}-\d{2}T/.test(selectedTime)) {
+        if (isNaN(Date.parse(selectedTime))) {
+          return res.status(400).json({ error: "Bad Request", message: "meetingTime is not a valid ISO timestamp" });
+        }
+        // ISO timestamp with an explicit offset
+        meetingTime = new Date(selectedTime);
+      } else {
+        // Clock time ("2:30 PM") on the caller's tomorrow, default 12:30
+        let hours = 12;
+        let minutes = 30;
+        const timeMatch = selectedTime?.match(/(\d{1,2}):(\d{2})\s?(AM|PM)/i);
         if (timeMatch) {
-          let hours = parseInt(timeMatch[1]);
-          const minutes = parseInt(timeMatch[2]);
+          hours = parseInt(timeMatch[1]);
+          minutes = parseInt(timeMatch[2]);
           const ampm = timeMatch[3].toUpperCase();
           
           if (ampm === 'PM' && hours !== 12) hours += 12;
           if (ampm === 'AM' && hours === 12) hours = 0;
-          
-          meetingTime.setHours(hours, minutes, 0, 0);
-        } else {
-          // Fallback to default time
-          meetingTime.setHours(12, 30, 0, 0);
         }
-      } else {
-        // Default time
-        meetingTime.setHours(12, 30, 0, 0);
+        const tomorrow = addDaysToDateKey(toDateKey(new Date(), timeZone), 1);
+        meetingTime = zonedTimeToUtc(tomorrow, hours, minutes, timeZone);
       }
-      
-      // Save booking to database
-      const booking = await storage.createBooking({
+
+      // A time the client picked has to be an open slot, booked with the host that owns it
+      if (!selectedSlot) {
+        const slot = findSlotByStart(await getAvailableSlots({ sessionId: sess?.sessionId }), meetingTime);
+        if (!slot) {
+          console.log(`Booking rejected - ${meetingTime.toISOString()} is not an available slot`);
+          return res.status(409).json({
+            error: "Slot unavailable",
+            message: "That time slot is not available. Please pick another time."
+          });
+        }
+        hostId = slot.hostId;
+      }
+
+      // Convert the caller's hold into a booking atomically
+      const booking = await bookingProvider.createBooking(sess?.sessionId, {
         name,
         email,
-        meetingTime: meetingTime
+        meetingTime: meetingTime,
+        timezone: timeZone,
+        hostId
       });
 
-      const calendlyBaseLink = process.env.CALENDLY_BASE_LINK;
-      if (!calendlyBaseLink) {
-        throw new Error("CALENDLY_BASE_LINK environment variable not configured");
+      if (!booking) {
+        // Someone else booked it first - send the conversation back to slot negotiation
+        if (sess) {
+          await updateSession(sess.sessionId, ({ collectedData }) => {
+            collectedData.takenSlot = collectedData.meetingPreference || formatSlotLabel(meetingTime, timeZone);
+            collectedData.meetingPreference = undefined;
+            collectedData.selectedSlot = undefined;
+            collectedData.lastSuggestedSlot = undefined;
+            collectedData.suggestedSlot = undefined;
+            collectedData.userPreferredTime = undefined;
+          });
+        }
+
+        console.log(`Booking conflict - slot ${meetingTime.toISOString()} already taken`);
+        return res.status(409).json({
+          error: "Slot unavailable",
+          message: "That time slot was just taken. Please pick another time."
+        });
       }
 
-      // Construct Calendly URL with pre-filled information including meeting time
-      const separator = calendlyBaseLink.includes('?') ? '&' : '?';
-      const formattedTime = selectedTime || meetingTime.toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit', 
-        hour12: true 
-      });
-      const calendlyUrl = `${calendlyBaseLink}${separator}name=${encodeURIComponent(name)}&email=${encodeURIComponent(email)}&time=${encodeURIComponent(formattedTime)}`;
+      // Mark the session as booked so expiry doesn't report it as abandoned
+      if (sess) {
+        await updateSession(sess.sessionId, ({ collectedData }) => {
+          collectedData.bookingId = booking.id;
+        });
+      }
 
+      const redirectUrl = bookingProvider.getRedirectUrl(booking);
+      const managementToken = createManagementToken(booking.id);
       const response: BookingResponse = {
-        calendlyUrl
+        provider: bookingProvider.name,
+        redirectUrl,
+        bookingId: booking.id,
+        managementToken,
+        calendarUrl: `/api/bookings/${booking.id}/calendar.ics?token=${encodeURIComponent(managementToken)}`
       };
 
-      console.log(`Booking saved to database with ID: ${booking.id}`);
-      console.log(`Calendly URL generated: ${calendlyUrl}`);
+      console.log(`Booking saved to database with ID: ${booking.id} (${bookingProvider.name} provider)`);
+      if (redirectUrl) {
+        console.log(`Redirect URL generated: ${redirectUrl}`);
+      }
       res.json(response);
 
     } catch (error) {
       console.error("Booking Error:", error);
-      res.status(500).json({ 
+      const status = error instanceof ZodError ? 400 : 500;
+      res.status(status).json({
+        error: status === 400 ? "Bad Request" : "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Booking management endpoints - authorized by the management token returned from /api/book
+  // (pass as ?token=... or the X-Booking-Token header)
+  function getManagementToken(req: Request): string | undefined {
+    const header = req.header('x-booking-token');
+    return header || (typeof req.query.token === 'string' ? req.query.token : undefined);
+  }
+
+  function toBookingDetails(booking: Booking): BookingDetails {
+    return {
+      id: booking.id,
+      name: booking.name,
+      email: booking.email,
+      meetingTime: booking.meetingTime.toISOString(),
+      timezone: booking.timezone,
+      status: booking.status
+    };
+  }
+
+  async function loadAuthorizedBooking(req: Request, res: Response): Promise<Booking | undefined> {
+    if (!verifyManagementToken(req.params.id, getManagementToken(req))) {
+      res.status(403).json({ error: "Forbidden", message: "Invalid or missing booking token" });
+      return undefined;
+    }
+
+    const booking = await storage.getBooking(req.params.id);
+    if (!booking) {
+      res.status(404).json({ error: "Not Found", message: "Booking not found" });
+      return undefined;
+    }
+    return booking;
+  }
+
+  app.get("/api/bookings/:id", async (req, res) => {
+    try {
+      const booking = await loadAuthorizedBooking(req, res);
+      if (!booking) return;
+      res.json(toBookingDetails(booking));
+    } catch (error) {
+      console.error("Booking lookup error:", error);
+      res.status(500).json({
         error: "Internal server error",
-        message: error instanceof Error ? error.message : "Unknown error" 
+        message: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  // Text-to-Speech endpoint using ElevenLabs
-  app.post("/api/tts", async (req, res) => {
+  // RFC 5545 invite for the booking (a cancelled booking yields a METHOD:CANCEL invite)
+  app.get("/api/bookings/:id/calendar.ics", async (req, res) => {
     try {
-      const validatedData = ttsRequestSchema.parse(req.body);
-      const { text, voiceId = "21m00Tcm4TlvDq8ikWAM" } = validatedData; // Default to Rachel voice
+      const booking = await loadAuthorizedBooking(req, res);
+      if (!booking) return;
 
-      if (!ELEVENLABS_API_KEY) {
-        throw new Error("ELEVENLABS_API_KEY environment variable not configured");
+      const invite = buildCalendarInvite(booking);
+      res.setHeader('Content-Type', invite.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${invite.filename}"`);
+      res.send(invite.content);
+    } catch (error) {
+      console.error("Calendar invite error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Reschedule to another available slot
+  app.patch("/api/bookings/:id", async (req, res) => {
+    try {
+      const booking = await loadAuthorizedBooking(req, res);
+      if (!booking) return;
+
+      if (booking.status === "cancelled") {
+        return res.status(409).json({ error: "Booking cancelled", message: "A cancelled booking can't be rescheduled" });
+      }
+
+      const { meetingTime, timezone } = bookingRescheduleSchema.parse(req.body);
+      const slot = findSlotByStart(await getAvailableSlots(), new Date(meetingTime));
+      if (!slot) {
+        return res.status(409).json({ error: "Slot unavailable", message: "That time slot is not available" });
       }
 
-      console.log(`TTS request - Text length: ${text.length}, Voice ID: ${voiceId}`);
-
-      // Call ElevenLabs API with Flash v2.5 for low latency
-      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': ELEVENLABS_API_KEY,
-        },
-        body: JSON.stringify({
-          text: text,
-          model_id: "eleven_flash_v2_5", // Flash v2.5: 75-135ms latency (90% faster)
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5,
-          },
-        }),
+      const updated = await bookingProvider.rescheduleBooking(booking, slot.start, slot.hostId, timezone);
+      if (!updated) {
+        return res.status(409).json({ error: "Slot unavailable", message: "That time slot was just taken. Please pick another time." });
+      }
+
+      console.log(`Booking ${booking.id} rescheduled to ${slot.start.toISOString()}`);
+      res.json(toBookingDetails(updated));
+    } catch (error) {
+      console.error("Booking reschedule error:", error);
+      const status = error instanceof ZodError ? 400 : 500;
+      res.status(status).json({
+        error: status === 400 ? "Bad Request" : "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
+
+  app.delete("/api/bookings/:id", async (req, res) => {
+    try {
+      const booking = await loadAuthorizedBooking(req, res);
+      if (!booking) return;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`ElevenLabs API error: ${response.status} ${errorText}`);
-        throw new Error(`ElevenLabs API error: ${response.status}`);
+      const cancelled = await bookingProvider.cancelBooking(booking);
+      if (!cancelled) {
+        return res.status(404).json({ error: "Not Found", message: "Booking not found" });
       }
 
-      const audioBuffer = await response.arrayBuffer();
-      
-      // Convert audio to base64 data URL for easy frontend consumption
-      const audioBase64 = Buffer.from(audioBuffer).toString('base64');
-      const audioDataUrl = `data:audio/mpeg;base64,${audioBase64}`;
+      console.log(`Booking ${booking.id} cancelled`);
+      res.json(toBookingDetails(cancelled));
+    } catch (error) {
+      console.error("Booking cancel error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Text-to-Speech endpoint using the configured TTS provider
+  app.post("/api/tts", async (req, res) => {
+    try {
+      const { text, locale, voiceId } = ttsRequestSchema.parse(req.body);
+
+      console.log(`TTS request - Text length: ${text.length}, Provider: ${ttsProvider.id}, Voice: ${voiceId ?? 'default'}`);
+      const { entry } = await getOrSynthesizeTTS(text, { locale, voice: voiceId });
 
       const ttsResponse: TTSResponse = {
-        audioUrl: audioDataUrl
+        audioUrl: ttsAudioUrl(entry.hash)
       };
 
       console.log(`TTS response generated successfully`);
@@ -968,7 +1344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error) {
       console.error("TTS Error:", error);
-      const status = error instanceof Error && error.message.includes('validation') ? 400 : 500;
+      const status = error instanceof ZodError ? 400 : 500;
       res.status(status).json({ 
         error: status === 400 ? "Bad Request" : "Internal server error",
         message: error instanceof Error ? error.message : "Unknown error" 
@@ -976,34 +1352,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AssemblyAI Token endpoint - generates temporary tokens for streaming
-  app.post("/api/assemblyai/token", async (req, res) => {
-    try {
-      if (!assemblyAIClient) {
-        throw new Error("AssemblyAI API key not configured");
-      }
+  // Cached TTS audio - content-addressed, so a hash's bytes never change
+  app.get("/api/tts/audio/:hash", (req, res) => {
+    const { hash } = req.params;
+    const entry = isTTSHash(hash) ? getTTSCacheEntry(hash) : undefined;
+    if (!entry) {
+      return res.status(404).json({ error: "Not found", message: "No cached audio for this hash" });
+    }
+
+    const etag = `"${hash}"`;
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
 
-      console.log("Generating AssemblyAI temporary token");
+    res.type(entry.contentType);
+    res.sendFile(ttsAudioPath(hash), { etag: false, lastModified: false, cacheControl: false }, (error) => {
+      if (error && !res.headersSent) {
+        console.error(`TTS audio ${hash} unreadable:`, error);
+        res.status(404).json({ error: "Not found", message: "Cached audio file is missing" });
+      }
+    });
+  });
 
-      // Generate a temporary token for streaming (max 600 seconds = 10 minutes)
-      const token = await assemblyAIClient.streaming.createTemporaryToken({
-        expires_in_seconds: 600, // 10 minutes (maximum allowed)
-      });
+  // TTS cache admin: size, hit rate and most used phrases
+  app.get("/api/tts/cache", requireAdminKey, (_req, res) => {
+    res.json(getTTSCacheStats());
+  });
 
-      console.log("AssemblyAI token generated successfully");
-      res.json({
-        token: token,
+  // Synthesize and pin phrases at runtime (kept across restarts, never evicted)
+  app.post("/api/tts/cache/warm", requireAdminKey, async (req, res) => {
+    try {
+      const { phrases, locale } = ttsCacheWarmSchema.parse(req.body);
+      const result = await warmTTSCache(phrases, locale);
+      console.log(`🔥 Warmed ${result.warmed} TTS phrase(s)${result.failed.length ? `, ${result.failed.length} failed` : ''}`);
+      res.json(result);
+    } catch (error) {
+      console.error("TTS cache warm error:", error);
+      const status = error instanceof ZodError ? 400 : 500;
+      res.status(status).json({
+        error: status === 400 ? "Bad Request" : "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
 
+  app.post("/api/tts/cache/purge", requireAdminKey, async (req, res) => {
+    try {
+      const { phrases } = ttsCachePurgeSchema.parse(req.body);
+      res.json({ purged: await purgeTTSCache(phrases) });
     } catch (error) {
-      console.error("AssemblyAI token generation error:", error);
-      res.status(500).json({
-        error: "Internal server error",
+      console.error("TTS cache purge error:", error);
+      const status = error instanceof ZodError ? 400 : 500;
+      res.status(status).json({
+        error: status === 400 ? "Bad Request" : "Internal server error",
         message: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
+  // Speech recognition engines for audio streamed over /voice-ws
+  app.get("/api/stt/providers", (req, res) => {
+    res.json({ providers: getSTTProviderStatus() });
+  });
+
   const httpServer = createServer(app);
 
   // WebSocket server setup for real-time voice agent communication
@@ -1015,8 +1428,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   wss.on('connection', (ws: WebSocket) => {
     console.log('WebSocket connection established');
+    // Sessions with turns on this connection, for barge-in bookkeeping
+    const connectionSessions = new Set<string>();
+    // Server-side speech recognition for the caller's audio, between audio_start and audio_stop
+    let audioStream: STTStream | null = null;
+    // Bumped by every audio_start / audio_stop / close, so a stream that finishes opening after a
+    // newer one was requested (or the socket went away) is closed instead of leaking
+    let audioGeneration = 0;
+
+    const closeAudioStream = async () => {
+      const stream = audioStream;
+      audioStream = null;
+      await stream?.close().catch(error => console.error('Closing speech recognition failed:', error));
+    };
+
+    ws.on('message', async (data, isBinary) => {
+      if (isBinary) {
+        // Caller audio: 16-bit mono PCM from linear-pcm-processor.js
+        audioStream?.send(data as Buffer);
+        return;
+      }
 
-    ws.on('message', async (data) => {
       try {
         const message = JSON.parse(data.toString());
         console.log(`WebSocket message received: ${JSON.stringify(message)}`);
@@ -1024,7 +1456,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (message.type === 'voice_agent') {
           // Handle voice agent request via WebSocket
           const validatedData = voiceAgentRequestSchema.parse(message.data);
-          const response = await processVoiceAgentRequest(validatedData);
+          connectionSessions.add(validatedData.sessionId);
+          const response = await processVoiceAgentRequest(validatedData, beginTurn(validatedData.sessionId, message.messageId));
 
           // Send response back via WebSocket
           console.log(`WebSocket Response sending:`, {
@@ -1048,8 +1481,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else if (message.type === 'voice_agent_stream') {
           // Handle streaming voice agent request for audio chunks
           const validatedData = voiceAgentRequestSchema.parse(message.data);
+          connectionSessions.add(validatedData.sessionId);
           await handleStreamingVoiceAgent(ws, validatedData, message.messageId);
 
+        } else if (message.type === 'cancel') {
+          // The caller talked over the agent - messageId is the turn they interrupted
+          const { sessionId, heardText } = voiceAgentCancelSchema.parse(message.data);
+          // Only turns this connection started can be cancelled from it
+          if (!connectionSessions.has(sessionId)) {
+            ws.send(JSON.stringify({ type: 'error', error: 'Unknown session for this connection', messageId: message.messageId }));
+            return;
+          }
+          await cancelVoiceAgentTurn(sessionId, message.messageId, heardText);
+          ws.send(JSON.stringify({ type: 'voice_agent_cancelled', messageId: message.messageId }));
+
+        } else if (message.type === 'audio_start') {
+          // Binary frames that follow are transcribed here and sent back as "transcript" messages
+          const { sessionId, sampleRate, locale, provider } = audioStartSchema.parse(message.data);
+          const generation = ++audioGeneration;
+          await closeAudioStream();
+          const stream = await openSTTStream(provider, {
+            sampleRate,
+            locale,
+            onTranscript: (event) => {
+              if (ws.readyState === WebSocket.OPEN) {
+                ws.send(JSON.stringify({ type: 'transcript', data: event, sessionId }));
+              }
+            },
+            onError: (error) => {
+              console.error('Speech recognition error:', error);
+              if (ws.readyState === WebSocket.OPEN) {
+                ws.send(JSON.stringify({ type: 'error', error: `Speech recognition failed: ${error.message}`, messageId: message.messageId }));
+              }
+            },
+          });
+          if (generation !== audioGeneration || ws.readyState !== WebSocket.OPEN) {
+            console.log(`🎙️ Closing ${stream.provider} stream opened after it was no longer wanted`);
+            await stream.close().catch(error => console.error('Closing speech recognition failed:', error));
+            return;
+          }
+          audioStream = stream;
+          ws.send(JSON.stringify({ type: 'audio_started', provider: stream.provider, messageId: message.messageId }));
+
+        } else if (message.type === 'audio_stop') {
+          audioGeneration++;
+          await closeAudioStream();
+          ws.send(JSON.stringify({ type: 'audio_stopped', messageId: message.messageId }));
+
         } else if (message.type === 'ping') {
           // Handle ping for connection keep-alive
           ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
@@ -1075,6 +1553,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     ws.on('close', () => {
       console.log('WebSocket connection closed');
+      forgetTurns(connectionSessions);
+      audioGeneration++;
+      closeAudioStream();
     });
 
     ws.on('error', (error) => {
@@ -1088,7 +1569,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }));
   });
 
-  // Voice agent handler (uses same logic as HTTP version)
+  // Streaming voice agent: LLM tokens -> replyText sentences -> per-sentence TTS -> audio_chunk messages
   async function handleStreamingVoiceAgent(ws: WebSocket, requestData: VoiceAgentRequest, messageId: string) {
     try {
       // Send immediate acknowledgment
@@ -1098,8 +1579,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sessionId: requestData.sessionId
       }));
 
-      // Process the request (uses shared helpers)
-      const response = await processVoiceAgentRequestStreaming(requestData);
+      let chunkIndex = 0;
+      const bargeIn = beginTurn(requestData.sessionId, messageId);
+      const response = await withSessionLock(requestData.sessionId, () => processVoiceAgentRequestStreaming(requestData, bargeIn, (audioUrl, text) => {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        ws.send(JSON.stringify({
+          type: 'audio_chunk',
+          messageId,
+          index: chunkIndex++,
+          text,
+          chunk: audioUrl
+        }));
+      }));
 
       // Send final response
       console.log(`WebSocket Streaming Response sending:`, {
@@ -1107,6 +1598,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         replyText: response.replyText,
         askFor: response.askFor,
         readyToBook: response.readyToBook,
+        audioChunks: chunkIndex,
         hasAudio: !!response.audioUrl,
         messageId
       });
@@ -1129,35 +1621,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  // Streaming version removed - now using same logic as regular version
-  // NOTE: Previously had fake streaming with chunking (4x TTS calls)
-  // Now uses shared helpers for consistency and efficiency
+  // Same turn logic as processVoiceAgentRequest, but the LLM response is streamed: each sentence of
+  // replyText is synthesized as soon as it is complete and handed to onAudioChunk in order.
+  // audioUrl is only set on the result when nothing could be streamed (e.g. unparseable JSON).
+  // Once the caller barges in, no more audio is synthesized.
   async function processVoiceAgentRequestStreaming(
-    requestData: VoiceAgentRequest
+    requestData: VoiceAgentRequest,
+    bargeIn: TurnRecord,
+    onAudioChunk: (audioUrl: string, text: string) => void
   ): Promise<VoiceAgentResponse> {
-    const { sessionId, text, final } = requestData;
+    const { sessionId, text, final, timezone, locale } = requestData;
+    const startTime = Date.now();
 
     console.log(`Voice Agent (Streaming Path) - Session: ${sessionId}, Text length: ${text.length}, Final: ${final}`);
 
-    // Use the exact same logic as regular processing
-    const session = getOrCreateSession(sessionId);
+    const session = await getOrCreateSession(sessionId, timezone, locale);
     addUserMessage(session, text, final);
 
-    const messagesWithContext = [...session.messages];
-    await addTimeSlotContext(session, messagesWithContext);
-
-    const llmResponse = await createChatCompletion(messagesWithContext);
-    if (!llmResponse.content) {
+    const turn = await prepareTurn(session, text, final);
+
+    // Sentences are synthesized in parallel but delivered in order
+    let delivery: Promise<void> = Promise.resolve();
+    let spokenText = '';
+    let firstAudioAt: number | null = null;
+    const splitter = createSentenceSplitter(sentence => {
+      spokenText += (spokenText ? ' ' : '') + sentence;
+      if (bargeIn.cancelled) return;
+      const audio = generateTTS(sentence, session);
+      delivery = delivery.then(async () => {
+        const audioUrl = await audio;
+        if (!audioUrl || bargeIn.cancelled) return;
+        if (firstAudioAt === null) {
+          firstAudioAt = Date.now();
+          console.log(`🔊 First audio chunk after ${firstAudioAt - startTime}ms`);
+        }
+        onAudioChunk(audioUrl, sentence);
+      });
+    });
+    const extractor = createReplyTextExtractor();
+
+    const onDelta = (delta: string) => splitter.push(extractor.push(delta));
+    const llmResponse: ChatCompletion & { readyToBook?: boolean } = turn.useTools
+      ? await runAgentTurn(session, turn.messagesWithContext, {
+          timeZone: getSessionTimeZone(session),
+          canBook: canBook(turn.flowAtStart.state),
+          onDelta,
+          isCancelled: () => bargeIn.cancelled
+        })
+      : await streamChatCompletion(turn.messagesWithContext, onDelta);
+    splitter.flush();
+
+    if (!llmResponse.content && !bargeIn.cancelled) {
       throw new Error(`No response from LLM provider (${llmResponse.provider})`);
     }
 
-    const parsedResponse = parseLLMResponse(llmResponse.content, llmResponse.provider);
-    extractCollectedData(session, text, parsedResponse);
+    const parsedResponse = parseLLMResponse(llmResponse.content ?? '', llmResponse.provider);
+    await finishTurn(session, turn, parsedResponse, llmResponse.readyToBook, bargeIn);
+
+    session.messages.push({ role: 'assistant', content: llmResponse.content ?? '' });
+    recordReply(session, bargeIn);
+    await saveSession(session);
 
-    session.messages.push({ role: 'assistant', content: llmResponse.content });
+    await delivery;
 
-    // Generate TTS (single call - no fake streaming)
-    const audioUrl = await generateTTS(parsedResponse.replyText);
+    // Nothing was streamed (no replyText in the JSON) - fall back to one clip for the final reply
+    const audioUrl = spokenText || bargeIn.cancelled ? undefined : await generateTTS(parsedResponse.replyText, session);
 
     const finalStreamingResponse = {
       replyText: parsedResponse.replyText,
@@ -1174,7 +1702,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       replyText: finalStreamingResponse.replyText,
       askFor: finalStreamingResponse.askFor,
       readyToBook: finalStreamingResponse.readyToBook,
-      hasAudio: !!finalStreamingResponse.audioUrl
+      streamed: !!spokenText,
+      hasAudio: !!finalStreamingResponse.audioUrl,
+      totalMs: Date.now() - startTime
     });
 
     return finalStreamingResponse;
@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import type { VoiceAgentSession } from "@shared/schema";
+
+// ============================================================================
+// VOICE SESSION EXPIRY - TTL sweeper for idle voice agent sessions
+// ============================================================================
+
+// Idle time before a session is expired (VOICE_SESSION_TTL_MINUTES, default 30)
+export const SESSION_TTL_MS = parseInt(process.env.VOICE_SESSION_TTL_MINUTES || "30", 10) * 60 * 1000;
+
+// How often the sweeper runs (VOICE_SESSION_SWEEP_INTERVAL_SECONDS, default 60)
+const SWEEP_INTERVAL_MS = parseInt(process.env.VOICE_SESSION_SWEEP_INTERVAL_SECONDS || "60", 10) * 1000;
+
+// Event types recorded when a session expires
+export const SESSION_ABANDONED = "session_abandoned";
+export const SESSION_EXPIRED = "session_expired";
+
+export interface SessionStats {
+  active: number;
+  expired: number;
+  abandoned: number;
+  ttlMinutes: number;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+// Sessions that ended without a booking are partial leads - keep whatever was captured
+function buildExpiryPayload(session: VoiceAgentSession): Record<string, any> {
+  const { rejectedSlots, ...collectedData } = session.collectedData;
+  return {
+    collectedData,
+    rejectedSlots,
+    messageCount: session.messages.filter(message => message.role !== 'system').length,
+    lastUpdated: session.lastUpdated.toISOString()
+  };
+}
+
+// Expire every session idle for longer than the TTL; returns the number expired
+export async function sweepExpiredSessions(ttlMs: number = SESSION_TTL_MS): Promise<number> {
+  if (sweepInProgress) return 0;
+  sweepInProgress = true;
+
+  try {
+    const cutoff = new Date(Date.now() - ttlMs);
+    const idleSessions = await storage.getIdleVoiceSessions(cutoff);
+    let expired = 0;
+
+    for (const session of idleSessions) {
+      // A caller who spoke since the lookup keeps their session
+      if (!(await storage.deleteIdleVoiceSession(session.sessionId, cutoff))) continue;
+
+      const type = session.collectedData.bookingId ? SESSION_EXPIRED : SESSION_ABANDONED;
+      await storage.createSessionEvent({
+        sessionId: session.sessionId,
+        type,
+        payload: buildExpiryPayload(session)
+      });
+      await storage.releaseSlotHolds(session.sessionId);
+      expired++;
+    }
+
+    if (expired > 0) {
+      console.log(`🧹 Expired ${expired} idle voice session(s)`);
+    }
+    return expired;
+  } finally {
+    sweepInProgress = false;
+  }
+}
+
+export async function getSessionStats(): Promise<SessionStats> {
+  const [active, abandoned, expiredAfterBooking] = await Promise.all([
+    storage.countVoiceSessions(),
+    storage.countSessionEvents(SESSION_ABANDONED),
+    storage.countSessionEvents(SESSION_EXPIRED)
+  ]);
+
+  return {
+    active,
+    expired: abandoned + expiredAfterBooking,
+    abandoned,
+    ttlMinutes: SESSION_TTL_MS / 60000
+  };
+}
+
+// Start the periodic sweeper; returns a function that stops it
+export function startSessionSweeper(intervalMs: number = SWEEP_INTERVAL_MS): () => void {
+  if (sweepTimer) return stopSessionSweeper;
+
+  console.log(`⏱️ Voice session sweeper started (TTL ${SESSION_TTL_MS / 60000} min, every ${intervalMs / 1000}s)`);
+  sweepTimer = setInterval(() => {
+    sweepExpiredSessions().catch(error => {
+      console.error('Session sweep failed:', error);
+    });
+  }, intervalMs);
+  // Don't keep the process alive just for the sweeper
+  sweepTimer.unref();
+
+  return stopSessionSweeper;
+}
+
+export function stopSessionSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
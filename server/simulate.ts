@@ -0,0 +1,460 @@
+import http from "http";
+import os from "os";
+import path from "path";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+import express from "express";
+import { WebSocket, type RawData } from "ws";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { localeSchema } from "@shared/schema";
+
+// ============================================================================
+// CONVERSATION SIMULATOR - drives the voice agent through scripted dialogues offline
+// ============================================================================
+// Usage: npm run simulate, or AGENT_TOOL_CALLING=true|false tsx server/simulate.ts [<fixture name filter>] [--verbose]
+//
+// Each fixture in server/fixtures/conversations (.json, .yaml or .yml) is a list of caller turns
+// with the LLM's scripted reply and the expected outcome. The real routes, session handling,
+// extraction and booking code run against MemStorage; only the edges are faked:
+// - LLM: a local OpenAI-compatible server answering from the fixture. Turns without a scripted
+//   reply follow the booking step the server asks for, like a well-behaved model would.
+//   Streamed replies pause after their first sentence until the caller gets audio (or a second
+//   has passed), so fixtures can check speech starts before the completion is done.
+// - TTS: ElevenLabs requests get a few bytes of fake audio, cached in a temporary directory.
+//
+// AGENT_TOOL_CALLING is read once at startup, so a run only covers fixtures for that mode
+// ("toolCalling" in the fixture, default false). npm run simulate runs both modes.
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "conversations");
+
+// "{{collectedData.offeredSlots.0.start}}" in tool arguments resolves against the previous
+// turn's session state, e.g. to hold a slot the agent offered
+const toolCallSchema = z.object({
+  name: z.string(),
+  arguments: z.record(z.any()).default({}),
+});
+
+const llmReplySchema = z.object({
+  replyText: z.string().optional(),
+  // Omitted: the askFor of the step the server asked for
+  askFor: z.string().nullable().optional(),
+  readyToBook: z.boolean().default(false),
+  // Called before the reply (tool calling fixtures only)
+  toolCalls: z.array(toolCallSchema).default([]),
+  // Raw completion text instead of the JSON reply, e.g. to test malformed output
+  raw: z.string().optional(),
+});
+
+const turnSchema = z.object({
+  caller: z.string(),
+  final: z.boolean().default(true),
+  llm: llmReplySchema.default({}),
+  expect: z.object({
+    askFor: z.string().nullable().optional(),
+    readyToBook: z.boolean().optional(),
+    flow: z.string().optional(),
+    replyText: z.string().optional(),
+    // Partial match; strings like "/2:30 PM$/" are regular expressions and objects match
+    // arrays by index ({ "0": ... })
+    collectedData: z.record(z.any()).optional(),
+    // HTTP status of the booking made when the agent says readyToBook (what the client does)
+    bookingStatus: z.number().int().optional(),
+    // The first audio chunk arrived while the LLM was still streaming the reply (streaming fixtures)
+    audioBeforeLLMDone: z.boolean().optional(),
+  }).default({}),
+});
+
+const fixtureSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  toolCalling: z.boolean().default(false),
+  // Turns go over /voice-ws as voice_agent_stream, like the voice demo, instead of POST /api/agent
+  streaming: z.boolean().default(false),
+  timezone: z.string().default("Europe/London"),
+  // Language the caller speaks (see server/locales.ts)
+  locale: localeSchema.default("en"),
+  turns: z.array(turnSchema).min(1),
+  // Booking rows for the caller's email once the conversation is over (partial matches)
+  expectBookings: z.array(z.record(z.any())).optional(),
+});
+
+type Fixture = z.infer<typeof fixtureSchema>;
+type Turn = z.infer<typeof turnSchema>;
+
+// Mon-Fri 9:00-18:00 UTC with a long lookahead, so every run has open slots
+const SIMULATION_SCHEDULE = {
+  lookaheadBusinessDays: 10,
+  hosts: [{
+    id: "sim-host",
+    name: "Simulation Host",
+    timezone: "UTC",
+    weeklyHours: Object.fromEntries(["1", "2", "3", "4", "5"].map(day => [day, [{ start: "09:00", end: "18:00" }]])),
+  }],
+};
+
+const verbose = process.argv.includes("--verbose");
+const filter = process.argv.slice(2).find(arg => !arg.startsWith("--"));
+const output = (line: string) => process.stdout.write(`${line}\n`);
+
+// ============================================================================
+// FAKE LLM
+// ============================================================================
+
+interface FakeLLMState {
+  turn?: Turn;
+  // Audio chunks the caller received this turn, and whether the streamed reply has been sent in full
+  audioChunks: number;
+  llmDone: boolean;
+  collectedData: Record<string, any>;
+}
+
+function resolvePath(source: Record<string, any>, dottedPath: string): unknown {
+  return dottedPath.split(".").reduce<any>((value, key) => value?.[key], source);
+}
+
+function fillTemplates(value: unknown, state: FakeLLMState): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\{\{([\w.]+)\}\}/g, (_, key: string) => String(resolvePath({ collectedData: state.collectedData }, key) ?? ""));
+  }
+  if (Array.isArray(value)) return value.map(item => fillTemplates(item, state));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillTemplates(item, state)]));
+  }
+  return value;
+}
+
+// The askFor the server asked for in its "Current step" directive
+function directedAskFor(messages: Array<{ role: string; content?: string | null }>): string | null {
+  const step = [...messages].reverse().find(message => message.role === "system" && message.content?.startsWith("Current step"));
+  return step?.content?.match(/askFor "(\w+)"/)?.[1] ?? null;
+}
+
+function completion(message: Record<string, unknown>) {
+  return {
+    id: "sim",
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: "simulated",
+    choices: [{ index: 0, finish_reason: message.tool_calls ? "tool_calls" : "stop", message: { role: "assistant", content: null, ...message } }],
+  };
+}
+
+function answer(state: FakeLLMState, messages: any[]) {
+  const reply = state.turn?.llm ?? llmReplySchema.parse({});
+  // Tool calls first, then the reply once their results are in
+  const answeredTools = messages[messages.length - 1]?.role === "tool";
+  if (reply.toolCalls.length > 0 && !answeredTools) {
+    return completion({
+      tool_calls: reply.toolCalls.map((call, index) => ({
+        id: `call_${index}`,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(fillTemplates(call.arguments, state)) },
+      })),
+    });
+  }
+
+  if (reply.raw !== undefined) return completion({ content: reply.raw });
+  const askFor = reply.askFor !== undefined ? reply.askFor : directedAskFor(messages);
+  return completion({
+    content: JSON.stringify({
+      replyText: reply.replyText ?? `(simulated reply, asking for ${askFor ?? "nothing"})`,
+      askFor,
+      readyToBook: reply.readyToBook,
+    }),
+  });
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+// The completion as server-sent chat.completion.chunk events
+async function streamAnswer(state: FakeLLMState, messages: any[], res: express.Response): Promise<void> {
+  const message = answer(state, messages).choices[0].message as { content?: string | null; tool_calls?: Array<Record<string, unknown>> };
+  const send = (delta: Record<string, unknown>) => res.write(`data: ${JSON.stringify({
+    id: "sim",
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model: "simulated",
+    choices: [{ index: 0, delta, finish_reason: null }],
+  })}\n\n`);
+
+  res.setHeader("Content-Type", "text/event-stream");
+  if (message.tool_calls) {
+    send({ tool_calls: message.tool_calls.map((call, index) => ({ index, ...call })) });
+  }
+  if (message.content) {
+    // The first sentence, then the rest once the caller has heard something
+    const sentenceEnd = message.content.search(/[.!?] /);
+    const cut = sentenceEnd >= 0 ? sentenceEnd + 2 : message.content.length;
+    send({ content: message.content.slice(0, cut) });
+    await waitFor(() => state.audioChunks > 0, 1000);
+    state.llmDone = true;
+    if (cut < message.content.length) send({ content: message.content.slice(cut) });
+  }
+  res.end("data: [DONE]\n\n");
+}
+
+async function startFakeLLM(state: FakeLLMState): Promise<http.Server> {
+  const app = express();
+  app.use(express.json({ limit: "5mb" }));
+  app.post("/v1/chat/completions", (req, res) => {
+    if (req.body.stream) {
+      streamAnswer(state, req.body.messages ?? [], res).catch(error => res.destroy(error));
+      return;
+    }
+    res.json(answer(state, req.body.messages ?? []));
+  });
+
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+// Fake ElevenLabs: a few bytes of "audio" for every synthesis request
+function installFakeTTS(): void {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: Parameters<typeof fetch>[0], init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    if (url.startsWith("https://api.elevenlabs.io/")) {
+      return new Response(Buffer.from("fake-mp3"), { status: 200, headers: { "Content-Type": "audio/mpeg" } });
+    }
+    return realFetch(input, init);
+  }) as typeof fetch;
+}
+
+// ============================================================================
+// ASSERTIONS
+// ============================================================================
+
+function matches(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === "string" && /^\/.*\/[a-z]*$/.test(expected)) {
+    const [, pattern, flags] = expected.match(/^\/(.*)\/([a-z]*)$/)!;
+    return typeof actual === "string" && new RegExp(pattern, flags).test(actual);
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.length === actual.length && expected.every((item, index) => matches(item, actual[index]));
+  }
+  if (expected && typeof expected === "object") {
+    return !!actual && typeof actual === "object" &&
+      Object.entries(expected).every(([key, value]) => matches(value, (actual as Record<string, unknown>)[key]));
+  }
+  return expected === actual;
+}
+
+function check(failures: string[], label: string, expected: unknown, actual: unknown): void {
+  if (expected !== undefined && !matches(expected, actual)) {
+    failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+async function loadFixtures(): Promise<Array<{ file: string; fixture: Fixture }>> {
+  const files = (await readdir(FIXTURES_DIR)).filter(file => /\.(json|ya?ml)$/.test(file)).sort();
+  const fixtures: Array<{ file: string; fixture: Fixture }> = [];
+  for (const file of files) {
+    const raw = await readFile(path.join(FIXTURES_DIR, file), "utf8");
+    const parsed = file.endsWith(".json") ? JSON.parse(raw) : parseYaml(raw);
+    fixtures.push({ file, fixture: fixtureSchema.parse(parsed) });
+  }
+  return fixtures;
+}
+
+async function openVoiceSocket(baseUrl: string): Promise<WebSocket> {
+  const socket = new WebSocket(`${baseUrl.replace(/^http/, "ws")}/voice-ws`);
+  await new Promise<void>((resolve, reject) => {
+    socket.once("message", () => resolve());
+    socket.once("error", reject);
+  });
+  return socket;
+}
+
+// One voice_agent_stream turn; status 200 with the final response, 500 on a stream error
+function streamTurn(
+  socket: WebSocket,
+  state: FakeLLMState,
+  request: Record<string, unknown>,
+  messageId: string
+): Promise<{ status: number; json: any; audioBeforeLLMDone: boolean }> {
+  return new Promise(resolve => {
+    let audioBeforeLLMDone = false;
+    const onMessage = (data: RawData) => {
+      const message = JSON.parse(data.toString());
+      if (message.messageId !== messageId) return;
+      if (message.type === "audio_chunk") {
+        if (state.audioChunks++ === 0) audioBeforeLLMDone = !state.llmDone;
+      } else if (message.type === "voice_agent_stream_complete" || message.type === "voice_agent_stream_error") {
+        socket.off("message", onMessage);
+        const complete = message.type === "voice_agent_stream_complete";
+        resolve({ status: complete ? 200 : 500, json: complete ? message.data : message, audioBeforeLLMDone });
+      }
+    };
+    socket.on("message", onMessage);
+    socket.send(JSON.stringify({ type: "voice_agent_stream", messageId, data: request }));
+  });
+}
+
+async function runFixture(
+  baseUrl: string,
+  state: FakeLLMState,
+  fixture: Fixture,
+  storage: typeof import("./storage").storage
+): Promise<string[]> {
+  const failures: string[] = [];
+  const sessionId = `sim-${fixture.name.replace(/\W+/g, "-")}-${Date.now()}`;
+  state.collectedData = {};
+
+  const post = async (route: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, json: await response.json() };
+  };
+
+  const socket = fixture.streaming ? await openVoiceSocket(baseUrl) : undefined;
+
+  for (let index = 0; index < fixture.turns.length; index++) {
+    const turn = fixture.turns[index];
+    state.turn = turn;
+    state.audioChunks = 0;
+    state.llmDone = false;
+    const label = `turn ${index + 1} ("${turn.caller}")`;
+    const request = {
+      sessionId,
+      text: turn.caller,
+      final: turn.final,
+      timezone: fixture.timezone,
+      locale: fixture.locale,
+    };
+    const { status, json, audioBeforeLLMDone } = socket
+      ? await streamTurn(socket, state, request, `sim-${index}`)
+      : { ...(await post("/api/agent", request)), audioBeforeLLMDone: undefined };
+    if (status !== 200) {
+      failures.push(`${label}: ${socket ? "voice_agent_stream" : "/api/agent"} returned ${status} ${JSON.stringify(json)}`);
+      break;
+    }
+
+    const collectedData = json.sessionState?.collectedData ?? {};
+    state.collectedData = collectedData;
+    check(failures, `${label} askFor`, turn.expect.askFor, json.askFor);
+    check(failures, `${label} readyToBook`, turn.expect.readyToBook, json.readyToBook);
+    check(failures, `${label} flow`, turn.expect.flow, collectedData.flow?.state);
+    check(failures, `${label} replyText`, turn.expect.replyText, json.replyText);
+    check(failures, `${label} collectedData`, turn.expect.collectedData, collectedData);
+    check(failures, `${label} audioBeforeLLMDone`, turn.expect.audioBeforeLLMDone, audioBeforeLLMDone);
+
+    // Book like the client does once the agent says everything is confirmed
+    if (json.readyToBook) {
+      const booking = await post("/api/book", {
+        name: collectedData.name,
+        email: collectedData.email,
+        sessionId,
+        timezone: fixture.timezone,
+      });
+      check(failures, `${label} booking status`, turn.expect.bookingStatus ?? 200, booking.status);
+    } else if (turn.expect.bookingStatus !== undefined) {
+      failures.push(`${label}: expected a booking (status ${turn.expect.bookingStatus}) but readyToBook was false`);
+    }
+  }
+
+  if (socket) {
+    await new Promise(resolve => {
+      socket.once("close", resolve);
+      socket.close();
+    });
+  }
+
+  if (fixture.expectBookings) {
+    const email = state.collectedData.email;
+    const bookings = email ? await storage.getUpcomingBookingsByEmail(email, new Date()) : [];
+    check(failures, "bookings", fixture.expectBookings, bookings.map(booking => ({
+      name: booking.name,
+      email: booking.email,
+      meetingTime: booking.meetingTime.toISOString(),
+      timezone: booking.timezone,
+      status: booking.status,
+    })));
+  }
+
+  return failures;
+}
+
+async function main(): Promise<void> {
+  const toolCalling = process.env.AGENT_TOOL_CALLING !== "false";
+  const fixtures = (await loadFixtures())
+    .filter(({ fixture }) => fixture.toolCalling === toolCalling)
+    .filter(({ file, fixture }) => !filter || file.includes(filter) || fixture.name.includes(filter));
+
+  const state: FakeLLMState = { collectedData: {}, audioChunks: 0, llmDone: false };
+  const fakeLLM = await startFakeLLM(state);
+  const { port: llmPort } = fakeLLM.address() as AddressInfo;
+
+  // Everything in memory and offline - configured before the server modules load
+  process.env.LLM_PROVIDERS = JSON.stringify([{
+    id: "simulated",
+    type: "openai-compatible",
+    model: "simulated",
+    baseUrl: `http://127.0.0.1:${llmPort}/v1`,
+    maxRetries: 0,
+  }]);
+  process.env.TTS_PROVIDER = "elevenlabs";
+  process.env.ELEVENLABS_API_KEY = "simulated";
+  const ttsCacheDir = await mkdtemp(path.join(os.tmpdir(), "simulate-tts-"));
+  process.env.TTS_CACHE_DIR = ttsCacheDir;
+  process.env.BOOKING_SCHEDULE = JSON.stringify(SIMULATION_SCHEDULE);
+  process.env.BOOKING_PROVIDER = "native";
+  for (const key of ["DATABASE_URL", "SMTP_HOST", "ASSEMBLYAI_API_KEY", "CALENDLY_BASE_LINK"]) {
+    delete process.env[key];
+  }
+  installFakeTTS();
+
+  const quiet = { log: console.log, warn: console.warn, error: console.error };
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  const { registerRoutes } = await import("./routes");
+  const { storage } = await import("./storage");
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  output(`🎭 Simulating ${fixtures.length} conversation(s) with tool calling ${toolCalling ? "on" : "off"}`);
+  let failed = 0;
+  for (const { file, fixture } of fixtures) {
+    const failures = await runFixture(baseUrl, state, fixture, storage);
+    if (failures.length === 0) {
+      output(`✅ ${fixture.name} (${file}, ${fixture.turns.length} turns)`);
+    } else {
+      failed++;
+      output(`❌ ${fixture.name} (${file})`);
+      failures.forEach(failure => output(`   - ${failure}`));
+    }
+  }
+
+  Object.assign(console, quiet);
+  output(failed === 0 ? "All conversations passed" : `${failed} of ${fixtures.length} conversation(s) failed`);
+  server.close();
+  fakeLLM.close();
+  await rm(ttsCacheDir, { recursive: true, force: true });
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,452 @@
+import WebSocket from "ws";
+import { AssemblyAI } from "assemblyai";
+import type { Locale, STTProviderId, TranscriptEvent } from "@shared/schema";
+
+// ============================================================================
+// SPEECH-TO-TEXT - caller audio streamed to the server over /voice-ws
+// ============================================================================
+// The browser sends the 16-bit mono PCM produced by linear-pcm-processor.js as binary WebSocket
+// frames. Each adapter forwards it to one STT engine and reports TranscriptEvents in the same shape,
+// so the client doesn't care which engine is listening.
+
+export interface STTStreamOptions {
+  sampleRate: number;
+  locale?: Locale;
+  onTranscript: (event: TranscriptEvent) => void;
+  onError: (error: Error) => void;
+}
+
+export interface STTStream {
+  provider: STTProviderId;
+  // Raw PCM16 little-endian samples
+  send(pcm: Buffer): void;
+  close(): Promise<void>;
+}
+
+export interface STTProviderStatus {
+  id: STTProviderId;
+  configured: boolean;
+  locales: Locale[];
+}
+
+interface STTAdapter {
+  isConfigured(): boolean;
+  supports(locale: Locale): boolean;
+  open(options: STTStreamOptions): Promise<Omit<STTStream, 'provider'>>;
+}
+
+const ALL_LOCALES: Locale[] = ['en', 'es', 'hi'];
+
+// Preferred engine when the client doesn't ask for one
+const STT_PROVIDER = process.env.STT_PROVIDER as STTProviderId | undefined;
+const DEFAULT_ORDER: STTProviderId[] = ['assemblyai', 'deepgram', 'whisper', 'vosk'];
+
+// How long to wait for an engine to send its last results after the audio ends
+const CLOSE_TIMEOUT_MS = 3000;
+
+// How long an engine gets to accept the socket, or to transcribe one Whisper utterance
+const CONNECT_TIMEOUT_MS = 5000;
+const TRANSCRIBE_TIMEOUT_MS = 15000;
+
+// Word timings in seconds (Deepgram, Vosk) to the milliseconds AssemblyAI uses
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+// Opens a WebSocket to an STT engine, resolving once it is connected
+function connectSocket(url: string, headers?: Record<string, string>): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { headers });
+    const timer = setTimeout(() => {
+      socket.terminate();
+      reject(new Error(`Speech recognition engine did not connect within ${CONNECT_TIMEOUT_MS}ms`));
+    }, CONNECT_TIMEOUT_MS);
+    socket.once('open', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+// Sends the engine's end-of-audio message and waits for it to flush and hang up
+function closeSocket(socket: WebSocket, endMessage: string): Promise<void> {
+  if (socket.readyState !== WebSocket.OPEN) return Promise.resolve();
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      socket.terminate();
+      resolve();
+    }, CLOSE_TIMEOUT_MS);
+    socket.once('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    socket.send(endMessage);
+  });
+}
+
+// ============================================================================
+// ASSEMBLYAI - universal streaming (English only)
+// ============================================================================
+
+const ASSEMBLYAI_API_KEY = process.env.ASSEMBLYAI_API_KEY;
+
+const assemblyAI: STTAdapter = {
+  isConfigured: () => !!ASSEMBLYAI_API_KEY,
+  supports: locale => locale === 'en',
+
+  async open({ sampleRate, onTranscript, onError }) {
+    const client = new AssemblyAI({ apiKey: ASSEMBLYAI_API_KEY! });
+    const transcriber = client.streaming.transcriber({
+      sampleRate,
+      formatTurns: true,
+      endOfTurnConfidenceThreshold: 0.5,
+      minEndOfTurnSilenceWhenConfident: 500,
+    });
+
+    transcriber.on('turn', turn => {
+      // With formatTurns the end of a turn arrives twice; only the formatted copy ends it
+      const endOfTurn = turn.end_of_turn && turn.turn_is_formatted;
+      onTranscript({
+        text: turn.transcript,
+        isFinal: turn.end_of_turn,
+        confidence: turn.end_of_turn_confidence,
+        endOfTurn,
+        words: turn.words?.map(word => ({
+          text: word.text,
+          confidence: word.confidence,
+          start: word.start,
+          end: word.end,
+        })),
+      });
+    });
+    transcriber.on('error', onError);
+
+    await transcriber.connect();
+    return {
+      send: pcm => transcriber.sendAudio(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength)),
+      close: () => transcriber.close(),
+    };
+  },
+};
+
+// ============================================================================
+// DEEPGRAM - live transcription over its WebSocket API
+// ============================================================================
+
+const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY;
+const DEEPGRAM_MODEL = process.env.DEEPGRAM_MODEL || 'nova-2';
+
+// The parts of Deepgram's live messages we read (times in seconds)
+interface DeepgramWord {
+  word: string;
+  punctuated_word?: string;
+  confidence: number;
+  start: number;
+  end: number;
+}
+
+type DeepgramMessage =
+  | { type: 'UtteranceEnd' }
+  | {
+      type: 'Results';
+      is_final?: boolean;
+      speech_final?: boolean;
+      channel?: { alternatives?: Array<{ transcript: string; confidence: number; words?: DeepgramWord[] }> };
+    }
+  | { type: 'Metadata' | 'SpeechStarted' };
+
+const deepgram: STTAdapter = {
+  isConfigured: () => !!DEEPGRAM_API_KEY,
+  supports: () => true,
+
+  async open({ sampleRate, locale, onTranscript, onError }) {
+    const params = new URLSearchParams({
+      model: DEEPGRAM_MODEL,
+      language: locale ?? 'en',
+      encoding: 'linear16',
+      sample_rate: String(sampleRate),
+      channels: '1',
+      interim_results: 'true',
+      smart_format: 'true',
+      endpointing: '500',
+      utterance_end_ms: '1000',
+    });
+    const socket = await connectSocket(`wss://api.deepgram.com/v1/listen?${params}`, {
+      Authorization: `Token ${DEEPGRAM_API_KEY}`,
+    });
+
+    // Deepgram finalizes a turn piece by piece; the turn ends at speech_final or UtteranceEnd
+    let finalized = '';
+    const endTurn = () => {
+      if (finalized) onTranscript({ text: finalized, isFinal: true, endOfTurn: true });
+      finalized = '';
+    };
+
+    socket.on('message', data => {
+      try {
+        const message: DeepgramMessage = JSON.parse(data.toString());
+        if (message.type === 'UtteranceEnd') {
+          endTurn();
+          return;
+        }
+        if (message.type !== 'Results') return;
+
+        const alternative = message.channel?.alternatives?.[0];
+        const transcript = alternative?.transcript ?? '';
+        if (message.is_final && transcript) finalized = `${finalized} ${transcript}`.trim();
+        if (message.speech_final) {
+          endTurn();
+        } else if (alternative && transcript) {
+          onTranscript({
+            text: message.is_final ? finalized : `${finalized} ${transcript}`.trim(),
+            isFinal: false,
+            confidence: alternative.confidence,
+            words: alternative.words?.map(word => ({
+              text: word.punctuated_word ?? word.word,
+              confidence: word.confidence,
+              start: toMs(word.start),
+              end: toMs(word.end),
+            })),
+          });
+        }
+      } catch (error) {
+        console.error('Unreadable Deepgram message:', error);
+      }
+    });
+    socket.on('error', onError);
+
+    return {
+      send: pcm => socket.readyState === WebSocket.OPEN && socket.send(pcm),
+      close: () => closeSocket(socket, JSON.stringify({ type: 'CloseStream' })),
+    };
+  },
+};
+
+// ============================================================================
+// WHISPER - local (or hosted) OpenAI-compatible /audio/transcriptions endpoint
+// ============================================================================
+// Whisper doesn't stream, so the audio is cut into utterances at pauses and each one is transcribed
+// on its own. There are no interim results.
+
+// e.g. http://localhost:8000/v1 for faster-whisper-server
+const WHISPER_URL = process.env.WHISPER_URL;
+const WHISPER_MODEL = process.env.WHISPER_MODEL || 'whisper-1';
+const WHISPER_API_KEY = process.env.WHISPER_API_KEY;
+
+const FRAME_MS = 30;
+// RMS level (0-1) that counts as speech
+const SPEECH_LEVEL = 0.02;
+// Pause that ends an utterance
+const UTTERANCE_SILENCE_MS = 700;
+const MAX_UTTERANCE_MS = 15000;
+// Audio kept from just before speech starts, so the first syllable isn't clipped
+const PRE_ROLL_MS = 300;
+
+function frameLevel(frame: Buffer): number {
+  const samples = Math.floor(frame.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = frame.readInt16LE(i * 2) / 0x8000;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+// Energy-based endpointing: buffers speech and hands over each utterance once the caller pauses
+function createUtteranceSegmenter(sampleRate: number, onUtterance: (pcm: Buffer) => void) {
+  const frameBytes = Math.round(sampleRate * FRAME_MS / 1000) * 2;
+  let frames: Buffer[] = [];
+  let speaking = false;
+  let silenceMs = 0;
+
+  const flush = () => {
+    if (speaking) onUtterance(Buffer.concat(frames));
+    frames = [];
+    speaking = false;
+    silenceMs = 0;
+  };
+
+  return {
+    push(pcm: Buffer) {
+      for (let offset = 0; offset < pcm.length; offset += frameBytes) {
+        const frame = pcm.subarray(offset, offset + frameBytes);
+        frames.push(frame);
+
+        if (frameLevel(frame) >= SPEECH_LEVEL) {
+          speaking = true;
+          silenceMs = 0;
+        } else if (speaking) {
+          silenceMs += FRAME_MS;
+        } else if (frames.length * FRAME_MS > PRE_ROLL_MS) {
+          frames.shift();
+        }
+
+        if (speaking && (silenceMs >= UTTERANCE_SILENCE_MS || frames.length * FRAME_MS >= MAX_UTTERANCE_MS)) {
+          flush();
+        }
+      }
+    },
+    flush,
+  };
+}
+
+// 16-bit mono WAV around raw PCM
+function toWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+const whisper: STTAdapter = {
+  isConfigured: () => !!WHISPER_URL,
+  supports: () => true,
+
+  async open({ sampleRate, locale, onTranscript, onError }) {
+    // Utterances are transcribed one after another so turns arrive in order
+    let pending = Promise.resolve();
+
+    const transcribe = async (pcm: Buffer) => {
+      const form = new FormData();
+      form.append('file', new Blob([toWav(pcm, sampleRate)], { type: 'audio/wav' }), 'utterance.wav');
+      form.append('model', WHISPER_MODEL);
+      if (locale) form.append('language', locale);
+
+      const response = await fetch(`${WHISPER_URL!.replace(/\/$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: WHISPER_API_KEY ? { Authorization: `Bearer ${WHISPER_API_KEY}` } : undefined,
+        body: form,
+        signal: AbortSignal.timeout(TRANSCRIBE_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Whisper transcription failed: ${response.status}`);
+      }
+      const { text } = await response.json() as { text?: string };
+      if (text?.trim()) onTranscript({ text: text.trim(), isFinal: true, endOfTurn: true });
+    };
+
+    const segmenter = createUtteranceSegmenter(sampleRate, pcm => {
+      pending = pending.then(() => transcribe(pcm)).catch(onError);
+    });
+
+    return {
+      send: pcm => segmenter.push(pcm),
+      close: async () => {
+        segmenter.flush();
+        await pending;
+      },
+    };
+  },
+};
+
+// ============================================================================
+// VOSK - local vosk-server over WebSocket, one server (model) per language
+// ============================================================================
+
+// VOSK_URL (e.g. ws://localhost:2700) serves English; VOSK_URL_ES / VOSK_URL_HI the other languages
+function voskUrl(locale: Locale): string | undefined {
+  return process.env[`VOSK_URL_${locale.toUpperCase()}`] || (locale === 'en' ? process.env.VOSK_URL : undefined);
+}
+
+// vosk-server sends {partial} while the caller speaks and {text, result} when an utterance ends
+interface VoskMessage {
+  partial?: string;
+  text?: string;
+  result?: Array<{ word: string; conf: number; start: number; end: number }>;
+}
+
+const vosk: STTAdapter = {
+  isConfigured: () => ALL_LOCALES.some(locale => !!voskUrl(locale)),
+  supports: locale => !!voskUrl(locale),
+
+  async open({ sampleRate, locale, onTranscript, onError }) {
+    const socket = await connectSocket(voskUrl(locale ?? 'en')!);
+    socket.send(JSON.stringify({ config: { sample_rate: sampleRate } }));
+
+    let lastPartial = '';
+    socket.on('message', data => {
+      try {
+        const message: VoskMessage = JSON.parse(data.toString());
+        if (typeof message.partial === 'string') {
+          // Vosk repeats the partial for every chunk; only report changes
+          if (message.partial && message.partial !== lastPartial) {
+            onTranscript({ text: message.partial, isFinal: false });
+          }
+          lastPartial = message.partial;
+        } else if (message.text) {
+          lastPartial = '';
+          const words = message.result ?? [];
+          onTranscript({
+            text: message.text,
+            isFinal: true,
+            endOfTurn: true,
+            confidence: words.length ? words.reduce((sum, word) => sum + word.conf, 0) / words.length : undefined,
+            words: words.map(word => ({
+              text: word.word,
+              confidence: word.conf,
+              start: toMs(word.start),
+              end: toMs(word.end),
+            })),
+          });
+        }
+      } catch (error) {
+        console.error('Unreadable Vosk message:', error);
+      }
+    });
+    socket.on('error', onError);
+
+    return {
+      send: pcm => socket.readyState === WebSocket.OPEN && socket.send(pcm),
+      close: () => closeSocket(socket, JSON.stringify({ eof: 1 })),
+    };
+  },
+};
+
+// ============================================================================
+// PROVIDER SELECTION
+// ============================================================================
+
+const ADAPTERS: Record<STTProviderId, STTAdapter> = { assemblyai: assemblyAI, deepgram, whisper, vosk };
+
+export function getSTTProviderStatus(): STTProviderStatus[] {
+  return DEFAULT_ORDER.map(id => ({
+    id,
+    configured: ADAPTERS[id].isConfigured(),
+    locales: ALL_LOCALES.filter(locale => ADAPTERS[id].supports(locale)),
+  }));
+}
+
+// The requested engine, else STT_PROVIDER, else the first configured engine that speaks the locale
+function selectProvider(requested: STTProviderId | undefined, locale: Locale): STTProviderId {
+  const usable = (id: STTProviderId) => ADAPTERS[id].isConfigured() && ADAPTERS[id].supports(locale);
+
+  if (requested) {
+    if (!usable(requested)) throw new Error(`Speech recognition provider "${requested}" is not configured for ${locale}`);
+    return requested;
+  }
+  const candidates = STT_PROVIDER && ADAPTERS[STT_PROVIDER] ? [STT_PROVIDER, ...DEFAULT_ORDER] : DEFAULT_ORDER;
+  const provider = candidates.find(usable);
+  if (!provider) throw new Error(`No speech recognition provider configured for ${locale}`);
+  return provider;
+}
+
+export async function openSTTStream(provider: STTProviderId | undefined, options: STTStreamOptions): Promise<STTStream> {
+  const id = selectProvider(provider, options.locale ?? 'en');
+  const stream = await ADAPTERS[id].open(options);
+  console.log(`🎙️ Speech recognition started with ${id} (${options.locale ?? 'en'}, ${options.sampleRate} Hz)`);
+  return { provider: id, ...stream };
+}
@@ -0,0 +1,350 @@
+import type { EmailCandidate, Locale } from "@shared/schema";
+import { translateEmailWords } from "./locales";
+
+// ============================================================================
+// SPOKEN EMAIL - "j as in juliet o h n at acme dot co dot uk" → candidate addresses
+// ============================================================================
+// Speech-to-text gives us words, not addresses: letters spelled one by one or with the NATO
+// alphabet, digits as words, "underscore", "plus", country domains. Every reading we're not
+// sure about lowers the confidence and tells the agent what to double-check with the caller.
+
+// Below this the agent reads the email back and asks about the uncertain parts
+export const EMAIL_CONFIDENCE_THRESHOLD = 0.8;
+
+const MAX_CANDIDATES = 3;
+// Readings kept while combining ambiguous pieces
+const BEAM_WIDTH = 8;
+
+const EMAIL_PATTERN = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/;
+const TYPED_EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/;
+
+const NATO_ALPHABET: Record<string, string> = {
+  alpha: 'a', alfa: 'a', bravo: 'b', charlie: 'c', delta: 'd', echo: 'e', foxtrot: 'f', golf: 'g',
+  hotel: 'h', india: 'i', juliet: 'j', juliett: 'j', kilo: 'k', lima: 'l', mike: 'm', november: 'n',
+  oscar: 'o', papa: 'p', quebec: 'q', romeo: 'r', sierra: 's', tango: 't', uniform: 'u', victor: 'v',
+  whiskey: 'w', whisky: 'w', xray: 'x', yankee: 'y', zulu: 'z',
+};
+
+// Letter names as speech-to-text writes them ("bee", "jay", "zed")
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a', bee: 'b', cee: 'c', see: 'c', dee: 'd', ef: 'f', eff: 'f', gee: 'g', aitch: 'h', eye: 'i', jay: 'j',
+  kay: 'k', el: 'l', ell: 'l', em: 'm', en: 'n', pee: 'p', cue: 'q', queue: 'q', ar: 'r', are: 'r',
+  ess: 's', tee: 't', you: 'u', vee: 'v', ex: 'x', why: 'y', wye: 'y', zed: 'z', zee: 'z',
+};
+
+const DIGITS: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+const TEENS: Record<string, string> = {
+  ten: '10', eleven: '11', twelve: '12', thirteen: '13', fourteen: '14', fifteen: '15', sixteen: '16',
+  seventeen: '17', eighteen: '18', nineteen: '19',
+};
+
+const TENS: Record<string, string> = {
+  twenty: '2', thirty: '3', forty: '4', fifty: '5', sixty: '6', seventy: '7', eighty: '8', ninety: '9',
+};
+
+const SYMBOLS: Record<string, string> = {
+  dot: '.', period: '.', point: '.', underscore: '_', dash: '-', hyphen: '-', minus: '-', plus: '+',
+};
+
+// Words callers put around the address that are never part of it
+const FILLERS = new Set(['um', 'uh', 'er', 'erm', 'the', 'and', 'then', "that's", 'thats', 'spelled', 'spelt', 'is', 'please', 'thanks']);
+
+// "co dot uk", "com dot au"
+const SECOND_LEVEL_DOMAINS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu']);
+
+// Top-level domains speech-to-text mishears
+const TLD_FIXES: Record<string, string> = { come: 'com', calm: 'com', comm: 'com', con: 'com', orc: 'org' };
+
+// Mail providers callers name without a TLD ("at gmail"), including common mishearings
+const PROVIDER_DOMAINS: Record<string, string> = {
+  gmail: 'gmail.com', geemail: 'gmail.com', jeemail: 'gmail.com', gmale: 'gmail.com',
+  googlemail: 'googlemail.com', yahoo: 'yahoo.com', outlook: 'outlook.com', hotmail: 'hotmail.com',
+  live: 'live.com', icloud: 'icloud.com', aol: 'aol.com', protonmail: 'protonmail.com',
+  proton: 'proton.me', gmx: 'gmx.com', zoho: 'zoho.com', yandex: 'yandex.com',
+};
+
+// Company domains callers use often, e.g. EMAIL_DOMAINS=sleeckos.com,acme.co.uk: "at acme" → acme.co.uk
+function loadKnownDomains(): Record<string, string> {
+  const domains = { ...PROVIDER_DOMAINS };
+  for (const domain of (process.env.EMAIL_DOMAINS || '').split(',')) {
+    const trimmed = domain.trim().toLowerCase();
+    if (trimmed.includes('.')) domains[trimmed.split('.')[0]] = trimmed;
+  }
+  return domains;
+}
+
+const KNOWN_DOMAINS = loadKnownDomains();
+
+// One piece of the address with its possible readings, most likely first
+interface Piece {
+  kind: 'word' | 'char' | 'symbol';
+  options: Array<{ text: string; weight: number }>;
+  // Shown to the caller when the piece isn't certain
+  note?: string;
+}
+
+interface Reading {
+  text: string;
+  weight: number;
+  notes: string[];
+}
+
+const certain = (kind: Piece['kind'], text: string): Piece => ({ kind, options: [{ text, weight: 1 }] });
+
+function letterOf(token: string, spelled: boolean): string | undefined {
+  if (/^[a-z]$/.test(token)) return token;
+  if (spelled) return NATO_ALPHABET[token] ?? LETTER_NAMES[token];
+  return undefined;
+}
+
+function digitsOf(tokens: string[], i: number): { text: string; used: number } | undefined {
+  const token = tokens[i];
+  if (/^\d+$/.test(token)) return { text: token, used: 1 };
+  if (DIGITS[token]) return { text: DIGITS[token], used: 1 };
+  if (TEENS[token]) return { text: TEENS[token], used: 1 };
+  if (TENS[token]) {
+    const unit = DIGITS[tokens[i + 1]];
+    return unit && unit !== '0' ? { text: TENS[token] + unit, used: 2 } : { text: `${TENS[token]}0`, used: 1 };
+  }
+  return undefined;
+}
+
+// A single letter or digit, said as one ("j", "jay", "juliet", "oh", "seven")
+function isSingle(token: string): boolean {
+  return /^[a-z0-9]$/.test(token) || token === 'oh' || !!(NATO_ALPHABET[token] ?? LETTER_NAMES[token] ?? DIGITS[token]);
+}
+
+// Mostly single letters and digits: the caller is spelling, so "mike" means m
+function isSpelled(tokens: string[]): boolean {
+  const content = tokens.filter(token => !SYMBOLS[token] && !FILLERS.has(token));
+  const singles = content.filter(isSingle).length;
+  return singles >= 2 && singles * 2 >= content.length;
+}
+
+function toPieces(tokens: string[]): Piece[] {
+  const spelled = isSpelled(tokens);
+  const pieces: Piece[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (FILLERS.has(token)) continue;
+
+    if (SYMBOLS[token]) {
+      pieces.push(certain('symbol', SYMBOLS[token]));
+      continue;
+    }
+
+    // "double l", "triple seven"; "double u" may also be w
+    if ((token === 'double' || token === 'triple') && i + 1 < tokens.length) {
+      const next = tokens[i + 1];
+      const repeated = letterOf(next, true) ?? digitsOf(tokens, i + 1)?.text;
+      if (repeated?.length === 1) {
+        const count = token === 'double' ? 2 : 3;
+        pieces.push(repeated === 'u' && count === 2
+          ? { kind: 'char', options: [{ text: 'w', weight: 0.6 }, { text: 'uu', weight: 0.4 }], note: '"double u" - w or two u\'s' }
+          : certain('char', repeated.repeat(count)));
+        i++;
+        continue;
+      }
+    }
+
+    // "j as in juliet", "j for juliet", "m like mary"
+    const letter = letterOf(token, spelled);
+    if (letter) {
+      const skip = tokens[i + 1] === 'as' && tokens[i + 2] === 'in' ? 3 : tokens[i + 1] === 'for' || tokens[i + 1] === 'like' ? 2 : 0;
+      if (skip && tokens[i + skip]?.[0] === letter) i += skip;
+      pieces.push(certain('char', letter));
+      continue;
+    }
+
+    if (token === 'oh') {
+      const nearDigits = [tokens[i - 1], tokens[i + 1]].some(near => near !== undefined && digitsOf([near], 0));
+      pieces.push({
+        kind: 'char',
+        options: nearDigits ? [{ text: '0', weight: 0.7 }, { text: 'o', weight: 0.3 }] : [{ text: 'o', weight: 0.7 }, { text: '0', weight: 0.3 }],
+        note: '"oh" - the letter o or zero',
+      });
+      continue;
+    }
+
+    const digits = digitsOf(tokens, i);
+    if (digits) {
+      pieces.push(certain(digits.text.length === 1 ? 'char' : 'word', digits.text));
+      i += digits.used - 1;
+      continue;
+    }
+
+    const word = token.replace(/[^a-z0-9._+-]/g, '');
+    if (word) pieces.push(certain('word', word));
+  }
+
+  return dropRepeatedSpelling(pieces);
+}
+
+// "john, j o h n": the spelling is what counts, so the word said before it goes
+function dropRepeatedSpelling(pieces: Piece[]): Piece[] {
+  return pieces.filter((piece, i) => {
+    if (piece.kind !== 'word') return true;
+    let spelling = '';
+    for (let j = i + 1; j < pieces.length && pieces[j].kind === 'char'; j++) spelling += pieces[j].options[0].text;
+    const word = piece.options[0].text;
+    return !(spelling.length >= 2 && spelling[0] === word[0] && Math.abs(spelling.length - word.length) <= 2);
+  });
+}
+
+// Words said one after another could be one word or separated ("john doe" → johndoe, john.doe, john_doe)
+function addJoins(pieces: Piece[], joins: Array<{ text: string; weight: number }>): Piece[] {
+  const joined: Piece[] = [];
+  pieces.forEach((piece, i) => {
+    const previous = pieces[i - 1];
+    if (previous?.kind === 'word' && piece.kind === 'word') {
+      joined.push({
+        kind: 'symbol',
+        options: joins,
+        note: `whether "${previous.options[0].text} ${piece.options[0].text}" is one word or has ${joins.slice(1).map(join => `a "${join.text}"`).join(' or ')} in between`,
+      });
+    }
+    joined.push(piece);
+  });
+  return joined;
+}
+
+// Unspelled words may be misheard ("jon" for "john") - the caller should check their spelling
+function flagSpelling(pieces: Piece[]): Piece[] {
+  return pieces.map(piece => piece.kind === 'word' && /[a-z]/.test(piece.options[0].text) && !piece.options[0].text.includes('.')
+    ? { ...piece, options: [{ text: piece.options[0].text, weight: 0.9 }], note: `the spelling of "${piece.options[0].text}"` }
+    : piece);
+}
+
+function combine(pieces: Piece[]): Reading[] {
+  let readings: Reading[] = [{ text: '', weight: 1, notes: [] }];
+  for (const piece of pieces) {
+    readings = readings
+      .flatMap(reading => piece.options.map(option => ({
+        text: reading.text + option.text,
+        weight: reading.weight * option.weight,
+        notes: piece.note ? [...reading.notes, piece.note] : reading.notes,
+      })))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, BEAM_WIDTH);
+  }
+  return readings;
+}
+
+// Fix up the domain's ending: provider names without a TLD ("at gmail") and misheard TLDs
+function finishDomain(domain: string): Reading {
+  const labels = domain.replace(/^\.+|\.+$/g, '').split('.').filter(Boolean);
+  if (labels.length === 0) return { text: '', weight: 0, notes: [] };
+
+  if (labels.length === 1) {
+    const known = KNOWN_DOMAINS[labels[0]];
+    // Without a spoken "dot" only known domains count - "I'm at home" is no email
+    return { text: known ?? '', weight: known ? 1 : 0, notes: [] };
+  }
+
+  const tld = labels[labels.length - 1];
+  if (TLD_FIXES[tld]) labels[labels.length - 1] = TLD_FIXES[tld];
+  const provider = labels.length === 2 ? PROVIDER_DOMAINS[labels[0]] : undefined;
+  if (provider && labels[1] === 'com') return { text: provider, weight: 1, notes: [] };
+  return { text: labels.join('.'), weight: 1, notes: [] };
+}
+
+// Drop lead-ins like "yeah sure, my email address is" and "sorry, it's"
+function stripLeadIn(text: string): string {
+  return text
+    .replace(/^.*?\b(?:e-?mail(?:\s+address)?|address)\s+(?:is|would be)\s+/, '')
+    .replace(/^(?:(?:yes|yeah|yep|sure|ok|okay|so|um|uh|well|no|sorry|oops|actually)\b[\s,.]*)+/, '')
+    .replace(/^(?:it'?s|it is)\s+/, '');
+}
+
+function tokenize(text: string): string[] {
+  const normalized = stripLeadIn(text.toLowerCase().trim())
+    .replace(/\bat the rate(?: of)?\b|\bat sign\b/g, ' @ ')
+    .replace(/\bunder score\b/g, 'underscore')
+    .replace(/\bfull stop\b/g, 'dot')
+    .replace(/\bdotcom\b/g, 'dot com')
+    .replace(/\bx-ray\b/g, 'xray')
+    .replace(/\bthank you\b/g, 'thanks')
+    .replace(/@/g, ' @ ')
+    .replace(/[,;:!?"]/g, ' ');
+
+  return normalized
+    .split(/\s+/)
+    // "J. O. H. N." and sentence-ending periods
+    .map(token => (token === '.' ? 'dot' : token.replace(/^\.+|\.+$/g, '')))
+    .filter(Boolean);
+}
+
+// The domain's "co uk" without a spoken dot between them
+function splitCountryDomain(tokens: string[]): string[] {
+  const n = tokens.length;
+  if (n >= 2 && SECOND_LEVEL_DOMAINS.has(tokens[n - 2]) && /^[a-z]{2}$/.test(tokens[n - 1]) && tokens[n - 3] === 'dot') {
+    return [...tokens.slice(0, n - 1), 'dot', tokens[n - 1]];
+  }
+  return tokens;
+}
+
+function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email) && !email.includes('..') && !/^[.]|[.]@|@[.-]/.test(email);
+}
+
+// Candidate addresses for what the caller said, best first. Empty when no email was heard.
+export function normalizeSpokenEmail(text: string, locale?: Locale | null): EmailCandidate[] {
+  const typed = text.toLowerCase().match(TYPED_EMAIL);
+  if (typed && isValidEmail(typed[0])) {
+    return [{ email: typed[0], confidence: 1, uncertain: [] }];
+  }
+
+  const tokens = tokenize(translateEmailWords(text, locale));
+  // The last "at" splits the address - callers don't say "at" inside one
+  const separator = tokens.lastIndexOf('@') >= 0 ? tokens.lastIndexOf('@') : tokens.lastIndexOf('at');
+  if (separator <= 0) return [];
+
+  const localPieces = toPieces(tokens.slice(0, separator));
+  const domainPieces = toPieces(splitCountryDomain(tokens.slice(separator + 1)));
+  const spelledLocal = localPieces.every(piece => piece.kind !== 'word');
+
+  const locals = combine(addJoins(spelledLocal ? localPieces : flagSpelling(localPieces), [
+    { text: '', weight: 0.6 }, { text: '.', weight: 0.25 }, { text: '_', weight: 0.15 },
+  ]));
+  const domains = combine(addJoins(domainPieces, [{ text: '', weight: 0.8 }, { text: '-', weight: 0.2 }]))
+    .map(reading => {
+      const finished = finishDomain(reading.text);
+      return { text: finished.text, weight: reading.weight * finished.weight, notes: [...reading.notes, ...finished.notes] };
+    });
+
+  const seen = new Set<string>();
+  const candidates: EmailCandidate[] = [];
+  const readings = locals
+    .flatMap(local => domains.map(domain => ({
+      email: `${local.text.replace(/^[.+_-]+|[.+_-]+$/g, '')}@${domain.text}`,
+      confidence: local.weight * domain.weight,
+      uncertain: [...local.notes, ...domain.notes],
+    })))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  for (const reading of readings) {
+    if (reading.confidence === 0 || seen.has(reading.email) || !isValidEmail(reading.email)) continue;
+    seen.add(reading.email);
+    candidates.push({ ...reading, confidence: Math.round(reading.confidence * 100) / 100, uncertain: Array.from(new Set(reading.uncertain)) });
+    if (candidates.length === MAX_CANDIDATES) break;
+  }
+  return candidates;
+}
+
+export function needsEmailCheck(candidate: EmailCandidate | undefined): boolean {
+  return !!candidate && (candidate.confidence < EMAIL_CONFIDENCE_THRESHOLD || candidate.uncertain.length > 0);
+}
+
+// For the LLM: the best reading, what to double-check and the alternatives
+export function describeHeardEmail(candidates: EmailCandidate[]): string | undefined {
+  const [best, ...others] = candidates;
+  if (!best) return undefined;
+  const lines = [`Email heard: ${best.email} (${Math.round(best.confidence * 100)}% sure).`];
+  if (best.uncertain.length > 0) lines.push(`Unsure about: ${best.uncertain.join('; ')}.`);
+  if (others.length > 0) lines.push(`Other readings: ${others.map(candidate => candidate.email).join(', ')}.`);
+  return lines.join(' ');
+}
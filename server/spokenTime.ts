@@ -0,0 +1,287 @@
+import type { Locale } from "@shared/schema";
+import { addDaysToDateKey, getDateKeyWeekday, getZonedParts, toDateKey } from "./timezone";
+import { translateTimeWords } from "./locales";
+
+// ============================================================================
+// SPOKEN TIME - "next Tuesday afternoon", "half past two", "any time after 3 on Friday"
+// ============================================================================
+// Turns the caller's words into the days and hours they mean, in their own timezone. The
+// availability engine then picks the closest open slot (see rankSlotsForRequest).
+
+export interface TimeRequest {
+  // Calendar days ("YYYY-MM-DD") the caller means; any day when omitted
+  dates?: string[];
+  // Minutes after midnight, end exclusive
+  window?: { start: number; end: number };
+  // A specific time, minutes after midnight
+  time?: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15, sixteenth: 16, seventeenth: 17,
+  eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30, "thirty first": 31,
+};
+["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth"].forEach((word, i) => {
+  ORDINAL_WORDS[`twenty ${word}`] = 21 + i;
+});
+
+const HOUR_WORDS: Record<string, string> = {
+  one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  ten: '10', eleven: '11', twelve: '12',
+};
+
+// Parts of the day, minutes after midnight. "at" is the moment a part names, for "before the end of the day"
+const DAY_PARTS: Array<{ pattern: RegExp; start: number; end: number; pm: boolean; at?: number }> = [
+  { pattern: /\bfirst thing\b|\bearly (?:in the )?morning\b/, start: 0, end: 600, pm: false },
+  { pattern: /\blate (?:in the )?morning\b/, start: 600, end: 720, pm: false },
+  { pattern: /\bmorning\b/, start: 0, end: 720, pm: false },
+  { pattern: /\blunch(?:time)?\b/, start: 720, end: 840, pm: true },
+  { pattern: /\bearly (?:in the )?afternoon\b/, start: 720, end: 900, pm: true },
+  { pattern: /\bend of the day\b/, start: 900, end: 1020, pm: true, at: 1020 },
+  { pattern: /\blate (?:in the )?afternoon\b/, start: 900, end: 1020, pm: true },
+  { pattern: /\bafternoon\b/, start: 720, end: 1020, pm: true },
+  { pattern: /\bevening\b|\btonight\b|\bat night\b/, start: 1020, end: DAY_MINUTES, pm: true },
+];
+
+// "after lunch" starts when lunch ends, "before the afternoon" ends when it starts
+const DAY_PART_LEAD = /\b(after|before|by|until|till) (?:the |my |your )?$/;
+
+// Words that make a bare number a time: "at 3", "after 4", "between 2 and 4"
+const CLOCK_LEAD_WORDS = new Set([
+  'at', 'around', 'about', 'after', 'before', 'by', 'between', 'from', 'to', 'till', 'until', 'and', 'or', 'say', 'maybe', 'than',
+]);
+
+const ORDINAL = `(\\d{1,2})(?:st|nd|rd|th)|${Object.keys(ORDINAL_WORDS).sort((a, b) => b.length - a.length).join('|')}`;
+const MONTH = `${MONTHS.join('|')}|${Object.keys(MONTH_ABBREVIATIONS).join('|')}`;
+
+interface Clock {
+  hour: number;
+  minute: number;
+  suffix?: string;
+  lead?: string;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name) + 1 || MONTH_ABBREVIATIONS[name];
+}
+
+function ordinalValue(match: string): number {
+  return ORDINAL_WORDS[match] ?? parseInt(match, 10);
+}
+
+function isRealDate(dateKey: string): boolean {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function dateKeyOf(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// "the 14th" is this month unless it's passed; "March 3rd" is this year unless it's passed
+function resolveDayOfMonth(today: string, day: number, month?: number): string | undefined {
+  const [year, currentMonth] = today.split('-').map(Number);
+  let key = dateKeyOf(year, month ?? currentMonth, day);
+  if (key < today) {
+    key = month ? dateKeyOf(year + 1, month, day) : currentMonth === 12 ? dateKeyOf(year + 1, 1, day) : dateKeyOf(year, currentMonth + 1, day);
+  }
+  return isRealDate(key) ? key : undefined;
+}
+
+function dateRange(first: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => addDaysToDateKey(first, i));
+}
+
+// Stands in for the date words removed from the text, so "10 tomorrow" still reads as a time
+const DATE_MARK = '<date>';
+
+// The days the caller mentioned, with the words removed so their numbers aren't read as times
+function extractDates(text: string, today: string): { dates?: string[]; rest: string } {
+  const weekday = getDateKeyWeekday(today);
+  const monday = addDaysToDateKey(today, -((weekday + 6) % 7));
+  const nextMonday = addDaysToDateKey(monday, 7);
+
+  const rules: Array<{ pattern: RegExp; dates: (match: RegExpMatchArray) => string[] | undefined }> = [
+    { pattern: /\bday after tomorrow\b/, dates: () => [addDaysToDateKey(today, 2)] },
+    { pattern: /\btomorrow\b/, dates: () => [addDaysToDateKey(today, 1)] },
+    { pattern: /\btoday\b|\bthis (?=morning|afternoon|evening)|(?=\btonight\b)/, dates: () => [today] },
+    { pattern: /\bearly next week\b/, dates: () => dateRange(nextMonday, 3) },
+    { pattern: /\bnext week\b/, dates: () => dateRange(nextMonday, 7) },
+    { pattern: /\b(?:the )?end of (?:the|this) week\b/, dates: () => dateRange(addDaysToDateKey(monday, 3), 2) },
+    { pattern: /\blater this week\b/, dates: () => dateRange(addDaysToDateKey(today, 1), Math.max(0, 6 - (weekday + 6) % 7)) },
+    { pattern: /\bthis week\b/, dates: () => dateRange(today, 7 - (weekday + 6) % 7) },
+    {
+      // "next Tuesday" is the one in next week, "Tuesday" / "this Tuesday" the coming one
+      pattern: new RegExp(`\\b(?:(next|this|coming) )?(?:on )?(${WEEKDAYS.join('|')})s?\\b`),
+      dates: match => {
+        const ahead = (WEEKDAYS.indexOf(match[2]) - weekday + 7) % 7;
+        if (match[1] !== 'next') return [addDaysToDateKey(today, match[1] === 'coming' && ahead === 0 ? 7 : ahead)];
+        const date = addDaysToDateKey(today, ahead === 0 ? 7 : ahead);
+        return [date < nextMonday ? addDaysToDateKey(date, 7) : date];
+      },
+    },
+    {
+      pattern: new RegExp(`\\b(${MONTH})\\.? (?:the )?(${ORDINAL}|\\d{1,2})\\b`),
+      dates: match => {
+        const day = resolveDayOfMonth(today, ordinalValue(match[2]), monthNumber(match[1]));
+        return day ? [day] : undefined;
+      },
+    },
+    {
+      // "the second one" picks an offered option, it isn't a date
+      pattern: new RegExp(`\\b(?:the )?(${ORDINAL})(?: of (${MONTH}))?\\b(?! (?:one|option|slot|choice)s?\\b)`),
+      dates: match => {
+        // Ordinal words need a month: "just a second" and "the first" aren't dates, "the 14th" is
+        if (!/\d/.test(match[1]) && !match[3]) return undefined;
+        const day = resolveDayOfMonth(today, ordinalValue(match[1]), match[3] ? monthNumber(match[3]) : undefined);
+        return day ? [day] : undefined;
+      },
+    },
+  ];
+
+  let rest = text;
+  for (const rule of rules) {
+    const match = rest.match(rule.pattern);
+    const dates = match && rule.dates(match);
+    if (match && dates) {
+      rest = rest.replace(match[0], ` ${DATE_MARK} `);
+      return { dates: dates.filter(date => date >= today), rest };
+    }
+  }
+  return { rest };
+}
+
+// "half past two" → "2:30", "two thirty" → "2:30", "noon" → "12:00 pm"
+function normalizeClockWords(text: string): string {
+  return text
+    .replace(/\b(?:12 )?(?:noon|midday)\b/g, '12:00 pm')
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b/g, word => HOUR_WORDS[word])
+    .replace(/\bforty[- ]five\b/g, '45')
+    .replace(/\bthirty\b/g, '30')
+    .replace(/\bfifteen\b/g, '15')
+    .replace(/\b(\d{1,2}) (15|30|45)\b/g, '$1:$2')
+    .replace(/\bhalf past (\d{1,2})\b/g, '$1:30')
+    .replace(/\bhalf (\d{1,2})\b/g, '$1:30')
+    .replace(/\b(?:a )?quarter past (\d{1,2})\b/g, '$1:15')
+    .replace(/\b(?:a )?quarter (?:to|til|till) (\d{1,2})\b/g, (_, hour: string) => `${(parseInt(hour, 10) + 10) % 12 + 1}:45`)
+    .replace(/\ba\.m\.?/g, 'am')
+    .replace(/\bp\.m\.?/g, 'pm');
+}
+
+function extractClocks(text: string): Clock[] {
+  const clocks: Clock[] = [];
+  const pattern = /\b(\d{1,2})(?:[:.](\d{2}))?(?:\s*(am|pm|o'?clock)\b)?/g;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const lead = text.slice(0, match.index).trim().split(/\s+/).pop();
+    const next = text.slice(match.index! + match[0].length).trim().split(/\s+/)[0];
+    const hour = parseInt(match[1], 10);
+    const minute = match[2] ? parseInt(match[2], 10) : 0;
+    if (hour > 23 || minute > 59) continue;
+    // A bare number is a time after a lead word or next to a day: "at 3", "10 tomorrow", "tuesday 4"
+    const nextToDate = lead === DATE_MARK || next === DATE_MARK;
+    if (!match[2] && !match[3] && !(lead && CLOCK_LEAD_WORDS.has(lead)) && !nextToDate) continue;
+    clocks.push({ hour, minute, suffix: match[3], lead });
+  }
+  return clocks;
+}
+
+// Without am/pm, business hours decide: "at 3" is 3 PM, "at 9" is 9 AM
+function toMinutes(clock: Clock, pm?: boolean): number {
+  let hour = clock.hour;
+  if (hour < 12) {
+    const isPm = clock.suffix === 'pm' || (clock.suffix !== 'am' && (pm ?? (hour >= 1 && hour <= 7)));
+    if (isPm) hour += 12;
+  } else if (hour === 12 && clock.suffix === 'am') {
+    hour = 0;
+  }
+  return hour * 60 + clock.minute;
+}
+
+// What the caller asked for, or undefined when they didn't mention a day or time.
+// Spanish and Hindi words are first rewritten into English (see server/locales.ts).
+export function parseTimeRequest(text: string, options: { timeZone: string; now?: Date; locale?: Locale | null }): TimeRequest | undefined {
+  const today = toDateKey(options.now ?? new Date(), options.timeZone);
+  const lower = translateTimeWords(text.replace(/[,!?¿¡।]/g, ' ').replace(/\s+/g, ' '), options.locale);
+  const { dates, rest } = extractDates(lower, today);
+
+  const dayPart = DAY_PARTS.find(part => part.pattern.test(rest));
+  const dayPartMatch = dayPart && rest.match(dayPart.pattern);
+  const dayPartLead = dayPartMatch ? rest.slice(0, dayPartMatch.index).match(DAY_PART_LEAD)?.[1] : undefined;
+  const clocks = extractClocks(normalizeClockWords(rest));
+  const request: TimeRequest = {};
+  if (dates) request.dates = dates;
+
+  const [first, second] = clocks.map(clock => toMinutes(clock, dayPart?.pm));
+  const lead = clocks[0]?.lead;
+  if (second !== undefined && (lead === 'between' || lead === 'from') && ['and', 'to', 'till', 'until'].includes(clocks[1].lead ?? '')) {
+    request.window = { start: first, end: second };
+  } else if (first !== undefined && (lead === 'after' || lead === 'from')) {
+    request.window = { start: first, end: DAY_MINUTES };
+  } else if (first !== undefined && (lead === 'before' || lead === 'by' || lead === 'until' || lead === 'till')) {
+    request.window = { start: 0, end: first };
+  } else if (first !== undefined) {
+    request.time = first;
+  } else if (dayPart && dayPartLead === 'after' && dayPart.end < DAY_MINUTES) {
+    request.window = { start: dayPart.at ?? dayPart.end, end: DAY_MINUTES };
+  } else if (dayPart && dayPartLead && dayPartLead !== 'after' && dayPart.start > 0) {
+    request.window = { start: 0, end: dayPart.at ?? dayPart.start };
+  } else if (dayPart) {
+    request.window = { start: dayPart.start, end: dayPart.end };
+  }
+
+  return request.dates || request.window || request.time !== undefined ? request : undefined;
+}
+
+function minuteOfDay(start: Date, timeZone: string): number {
+  const parts = getZonedParts(start, timeZone);
+  return parts.hour * 60 + parts.minute;
+}
+
+// The slot is on one of the requested days and within the requested hours
+export function withinTimeRequest(start: Date, request: TimeRequest, timeZone: string): boolean {
+  if (request.dates && !request.dates.includes(toDateKey(start, timeZone))) return false;
+  const minute = minuteOfDay(start, timeZone);
+  return !request.window || (minute >= request.window.start && minute < request.window.end);
+}
+
+// Exactly what the caller asked for, including the time when they gave one
+export function matchesTimeRequest(start: Date, request: TimeRequest, timeZone: string): boolean {
+  return withinTimeRequest(start, request, timeZone) && (request.time === undefined || minuteOfDay(start, timeZone) === request.time);
+}
+
+// Minutes between a slot's start and the requested time on its own day
+export function minutesFromRequest(start: Date, request: TimeRequest, timeZone: string): number {
+  return request.time === undefined ? 0 : Math.abs(minuteOfDay(start, timeZone) - request.time);
+}
+
+function formatMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  return `${hour % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+function formatDateKey(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+// "Tuesday, October 27 between 12:00 PM and 5:00 PM", for the LLM and logs
+export function describeTimeRequest(request: TimeRequest): string {
+  const parts: string[] = [];
+  if (request.dates?.length === 1) parts.push(formatDateKey(request.dates[0]));
+  else if (request.dates?.length) parts.push(`${formatDateKey(request.dates[0])} to ${formatDateKey(request.dates[request.dates.length - 1])}`);
+
+  if (request.time !== undefined) parts.push(`at ${formatMinutes(request.time)}`);
+  else if (request.window?.start === 0) parts.push(`before ${formatMinutes(request.window.end)}`);
+  else if (request.window?.end === DAY_MINUTES) parts.push(`after ${formatMinutes(request.window.start)}`);
+  else if (request.window) parts.push(`between ${formatMinutes(request.window.start)} and ${formatMinutes(request.window.end)}`);
+  return parts.join(' ');
+}
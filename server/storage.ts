@@ -1,19 +1,54 @@
-import { type User, type InsertUser, type Booking, type InsertBooking, users, bookings } from "@shared/schema";
+import { type User, type InsertUser, type Booking, type InsertBooking, type VoiceAgentSession, type SessionEvent, type InsertSessionEvent, type SlotHold, type InsertSlotHold, type ScheduledJob, type InsertScheduledJob, type ScheduledJobUpdate, users, bookings, voiceSessions, sessionEvents, slotHolds, scheduledJobs } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool } from "@neondatabase/serverless";
-import { eq, gte, lte, sql, and } from "drizzle-orm";
+import { eq, ne, gt, gte, lte, lt, sql, and, or, asc, desc, count, inArray } from "drizzle-orm";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Slot bookings made without a host are checked against each other like any one host's, in both
+// backends - a NULL host_id would slip past the unique index
+const UNASSIGNED_HOST_ID = "unassigned";
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   createBooking(booking: InsertBooking): Promise<Booking>;
   getBookingsByDate(date: Date): Promise<Booking[]>;
-  getAvailableTimeSlots(date: Date): Promise<string[]>;
+  getBooking(id: string): Promise<Booking | undefined>;
+  // Confirmed bookings for an email address starting at or after `from`, soonest first
+  getUpcomingBookingsByEmail(email: string, from: Date): Promise<Booking[]>;
+  // Active (non-cancelled) bookings in a time range
+  getBookingsBetween(start: Date, end: Date): Promise<Booking[]>;
+  // Slot writes take conflictMs: a host's meetings starting less than this apart overlap
+  // Move a booking to a new slot; undefined if the new slot overlaps another booking or hold
+  rescheduleBooking(id: string, meetingTime: Date, hostId: string, conflictMs: number, timezone?: string): Promise<Booking | undefined>;
+  cancelBooking(id: string): Promise<Booking | undefined>;
+  // Atomically hold a slot for a session (releasing its previous hold); undefined if it overlaps a booking or hold
+  holdSlot(hold: InsertSlotHold, conflictMs: number): Promise<SlotHold | undefined>;
+  getActiveSlotHolds(start: Date, end: Date): Promise<SlotHold[]>;
+  releaseSlotHolds(sessionId: string): Promise<void>;
+  // Atomically convert a hold into a booking; undefined if another caller got the slot (or an overlapping one) first
+  confirmSlotBooking(sessionId: string | undefined, booking: InsertBooking, conflictMs: number): Promise<Booking | undefined>;
+  getVoiceSession(sessionId: string): Promise<VoiceAgentSession | undefined>;
+  saveVoiceSession(session: VoiceAgentSession): Promise<VoiceAgentSession>;
+  findVoiceSessionByContact(name: string, email: string): Promise<VoiceAgentSession | undefined>;
+  getIdleVoiceSessions(idleSince: Date): Promise<VoiceAgentSession[]>;
+  // Deletes the session only while it is still idle since before idleSince; false if it was used meanwhile
+  deleteIdleVoiceSession(sessionId: string, idleSince: Date): Promise<boolean>;
+  countVoiceSessions(): Promise<number>;
+  createSessionEvent(event: InsertSessionEvent): Promise<SessionEvent>;
+  countSessionEvents(type: string): Promise<number>;
+  createScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  // Pending jobs due at `now`, plus jobs whose claim lease ran out (worker died mid-send)
+  getDueScheduledJobs(now: Date, limit: number): Promise<ScheduledJob[]>;
+  // Atomically mark a due job as sending until `leaseUntil`; undefined if another worker claimed it
+  claimScheduledJob(id: string, now: Date, leaseUntil: Date): Promise<ScheduledJob | undefined>;
+  updateScheduledJob(id: string, update: ScheduledJobUpdate): Promise<void>;
+  // Cancel a booking's jobs that haven't been sent yet; returns how many were cancelled
+  cancelPendingScheduledJobs(bookingId: string): Promise<number>;
 }
 
 // Database client setup - only if DATABASE_URL is available
@@ -26,10 +61,18 @@ if (process.env.DATABASE_URL) {
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private bookings: Map<string, Booking>;
+  private voiceSessions: Map<string, VoiceAgentSession>;
+  private sessionEvents: Map<string, SessionEvent>;
+  private slotHolds: Map<string, SlotHold>;
+  private scheduledJobs: Map<string, ScheduledJob>;
 
   constructor() {
     this.users = new Map();
     this.bookings = new Map();
+    this.voiceSessions = new Map();
+    this.sessionEvents = new Map();
+    this.slotHolds = new Map();
+    this.scheduledJobs = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -54,7 +97,12 @@ export class MemStorage implements IStorage {
     const booking: Booking = { 
       ...insertBooking, 
       id,
-      bookingTime: new Date()
+      timezone: insertBooking.timezone ?? null,
+      hostId: insertBooking.hostId ?? null,
+      status: "confirmed",
+      bookingTime: new Date(),
+      updatedAt: null,
+      sequence: 0
     };
     this.bookings.set(id, booking);
     return booking;
@@ -71,35 +119,274 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getAvailableTimeSlots(date: Date): Promise<string[]> {
-    const bookedSlots = await this.getBookingsByDate(date);
-    const bookedTimes = bookedSlots.map(booking => 
-      booking.meetingTime.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit', 
-        hour12: false 
-      })
+  async getBooking(id: string): Promise<Booking | undefined> {
+    return this.bookings.get(id);
+  }
+
+  async getUpcomingBookingsByEmail(email: string, from: Date): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking =>
+        booking.status !== "cancelled" &&
+        booking.email.toLowerCase() === email.toLowerCase() &&
+        booking.meetingTime >= from
+      )
+      .sort((a, b) => a.meetingTime.getTime() - b.meetingTime.getTime());
+  }
+
+  async getBookingsBetween(start: Date, end: Date): Promise<Booking[]> {
+    return Array.from(this.bookings.values()).filter(
+      booking => booking.status !== "cancelled" && booking.meetingTime >= start && booking.meetingTime <= end
     );
+  }
 
-    // Define available time slots (9 AM to 6 PM, every 30 minutes)
-    const allSlots = [];
-    for (let hour = 9; hour < 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-        if (!bookedTimes.includes(timeString)) {
-          const displayTime = new Date();
-          displayTime.setHours(hour, minute);
-          allSlots.push(displayTime.toLocaleTimeString('en-US', { 
-            hour: 'numeric', 
-            minute: '2-digit', 
-            hour12: true 
-          }));
-        }
+  async rescheduleBooking(id: string, meetingTime: Date, hostId: string, conflictMs: number, timezone?: string): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking || booking.status === "cancelled") return undefined;
+
+    if (this.isSlotBooked(hostId, meetingTime, conflictMs, id) ||
+        this.findActiveHold(hostId, meetingTime, conflictMs, new Date())) {
+      return undefined;
+    }
+
+    const updated: Booking = {
+      ...booking,
+      meetingTime,
+      hostId,
+      timezone: timezone ?? booking.timezone,
+      updatedAt: new Date(),
+      sequence: booking.sequence + 1
+    };
+    this.bookings.set(id, updated);
+    return updated;
+  }
+
+  async cancelBooking(id: string): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+
+    const cancelled: Booking = { ...booking, status: "cancelled", updatedAt: new Date(), sequence: booking.sequence + 1 };
+    this.bookings.set(id, cancelled);
+    return cancelled;
+  }
+
+  // No awaits between check and insert, so these are atomic on the single-threaded event loop
+  async holdSlot(insertHold: InsertSlotHold, conflictMs: number): Promise<SlotHold | undefined> {
+    const now = new Date();
+    for (const [id, hold] of Array.from(this.slotHolds.entries())) {
+      if (hold.expiresAt <= now || hold.sessionId === insertHold.sessionId) {
+        this.slotHolds.delete(id);
       }
     }
 
-    return allSlots;
+    if (this.isSlotBooked(insertHold.hostId, insertHold.slotStart, conflictMs) ||
+        this.findActiveHold(insertHold.hostId, insertHold.slotStart, conflictMs, now)) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    const hold: SlotHold = { ...insertHold, id, createdAt: now };
+    this.slotHolds.set(id, hold);
+    return hold;
+  }
+
+  async getActiveSlotHolds(start: Date, end: Date): Promise<SlotHold[]> {
+    const now = new Date();
+    return Array.from(this.slotHolds.values()).filter(
+      hold => hold.expiresAt > now && hold.slotStart >= start && hold.slotStart <= end
+    );
+  }
+
+  async releaseSlotHolds(sessionId: string): Promise<void> {
+    for (const [id, hold] of Array.from(this.slotHolds.entries())) {
+      if (hold.sessionId === sessionId) {
+        this.slotHolds.delete(id);
+      }
+    }
+  }
+
+  async confirmSlotBooking(sessionId: string | undefined, insertBooking: InsertBooking, conflictMs: number): Promise<Booking | undefined> {
+    const hostId = insertBooking.hostId ?? UNASSIGNED_HOST_ID;
+    // The caller's own hold doesn't block them
+    if (this.isSlotBooked(hostId, insertBooking.meetingTime, conflictMs) ||
+        this.findActiveHold(hostId, insertBooking.meetingTime, conflictMs, new Date(), sessionId)) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    const booking: Booking = {
+      ...insertBooking,
+      id,
+      timezone: insertBooking.timezone ?? null,
+      hostId,
+      status: "confirmed",
+      bookingTime: new Date(),
+      updatedAt: null,
+      sequence: 0
+    };
+    this.bookings.set(id, booking);
+    if (sessionId) {
+      for (const [holdId, hold] of Array.from(this.slotHolds.entries())) {
+        if (hold.sessionId === sessionId) this.slotHolds.delete(holdId);
+      }
+    }
+    return booking;
+  }
+
+  private isSlotBooked(hostId: string, meetingTime: Date, conflictMs: number, exceptBookingId?: string): boolean {
+    return Array.from(this.bookings.values()).some(
+      booking => booking.id !== exceptBookingId && booking.status !== "cancelled" && booking.hostId === hostId &&
+        Math.abs(booking.meetingTime.getTime() - meetingTime.getTime()) < conflictMs
+    );
+  }
+
+  private findActiveHold(hostId: string, slotStart: Date, conflictMs: number, now: Date, exceptSessionId?: string): SlotHold | undefined {
+    return Array.from(this.slotHolds.values()).find(
+      hold => hold.hostId === hostId && hold.sessionId !== exceptSessionId && hold.expiresAt > now &&
+        Math.abs(hold.slotStart.getTime() - slotStart.getTime()) < conflictMs
+    );
   }
+
+  async getVoiceSession(sessionId: string): Promise<VoiceAgentSession | undefined> {
+    return this.voiceSessions.get(sessionId);
+  }
+
+  async saveVoiceSession(session: VoiceAgentSession): Promise<VoiceAgentSession> {
+    this.voiceSessions.set(session.sessionId, session);
+    return session;
+  }
+
+  async findVoiceSessionByContact(name: string, email: string): Promise<VoiceAgentSession | undefined> {
+    // Most recently updated session wins when the same caller talked to the agent more than once
+    return Array.from(this.voiceSessions.values())
+      .filter(session => session.collectedData.name === name && session.collectedData.email === email)
+      .sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime())[0];
+  }
+
+  async getIdleVoiceSessions(idleSince: Date): Promise<VoiceAgentSession[]> {
+    return Array.from(this.voiceSessions.values()).filter(
+      session => session.lastUpdated < idleSince
+    );
+  }
+
+  async deleteIdleVoiceSession(sessionId: string, idleSince: Date): Promise<boolean> {
+    const session = this.voiceSessions.get(sessionId);
+    if (!session || session.lastUpdated >= idleSince) return false;
+    return this.voiceSessions.delete(sessionId);
+  }
+
+  async countVoiceSessions(): Promise<number> {
+    return this.voiceSessions.size;
+  }
+
+  async createSessionEvent(insertEvent: InsertSessionEvent): Promise<SessionEvent> {
+    const id = randomUUID();
+    const event: SessionEvent = {
+      ...insertEvent,
+      id,
+      createdAt: new Date()
+    };
+    this.sessionEvents.set(id, event);
+    return event;
+  }
+
+  async countSessionEvents(type: string): Promise<number> {
+    return Array.from(this.sessionEvents.values()).filter(event => event.type === type).length;
+  }
+
+  async createScheduledJob(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    const id = randomUUID();
+    const job: ScheduledJob = {
+      ...insertJob,
+      id,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      createdAt: new Date(),
+      completedAt: null
+    };
+    this.scheduledJobs.set(id, job);
+    return job;
+  }
+
+  async getDueScheduledJobs(now: Date, limit: number): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values())
+      .filter(job => (job.status === "pending" || job.status === "sending") && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+  }
+
+  async claimScheduledJob(id: string, now: Date, leaseUntil: Date): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(id);
+    if (!job || (job.status !== "pending" && job.status !== "sending") || job.runAt > now) {
+      return undefined;
+    }
+    const claimed: ScheduledJob = { ...job, status: "sending", runAt: leaseUntil, attempts: job.attempts + 1 };
+    this.scheduledJobs.set(id, claimed);
+    return claimed;
+  }
+
+  async updateScheduledJob(id: string, update: ScheduledJobUpdate): Promise<void> {
+    const job = this.scheduledJobs.get(id);
+    if (job) {
+      this.scheduledJobs.set(id, { ...job, ...update });
+    }
+  }
+
+  async cancelPendingScheduledJobs(bookingId: string): Promise<number> {
+    let cancelled = 0;
+    for (const job of Array.from(this.scheduledJobs.values())) {
+      if (job.bookingId === bookingId && job.status === "pending") {
+        this.scheduledJobs.set(job.id, { ...job, status: "cancelled", completedAt: new Date() });
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+}
+
+// ============================================================================
+// SLOT CONFLICTS (database) - overlap checks run under a per-host lock so concurrent writes can't
+// both pass them
+// ============================================================================
+
+type Transaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+// Held until the transaction ends; serializes bookings and holds of one host
+async function lockHostSlots(tx: Transaction, hostId: string): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${hostId}))`);
+}
+
+// Bounds of the starts that overlap a meeting starting at `start`
+function conflictRange(start: Date, conflictMs: number): [Date, Date] {
+  return [new Date(start.getTime() - conflictMs), new Date(start.getTime() + conflictMs)];
+}
+
+async function hasOverlappingBooking(tx: Transaction, hostId: string, start: Date, conflictMs: number, exceptBookingId?: string): Promise<boolean> {
+  const [from, to] = conflictRange(start, conflictMs);
+  const conditions = [
+    eq(bookings.hostId, hostId),
+    ne(bookings.status, "cancelled"),
+    gt(bookings.meetingTime, from),
+    lt(bookings.meetingTime, to)
+  ];
+  if (exceptBookingId) conditions.push(ne(bookings.id, exceptBookingId));
+
+  const result = await tx.select({ id: bookings.id }).from(bookings).where(and(...conditions)).limit(1);
+  return result.length > 0;
+}
+
+async function hasOverlappingHold(tx: Transaction, hostId: string, start: Date, conflictMs: number, exceptSessionId?: string): Promise<boolean> {
+  const [from, to] = conflictRange(start, conflictMs);
+  const conditions = [
+    eq(slotHolds.hostId, hostId),
+    gt(slotHolds.expiresAt, sql`now()`),
+    gt(slotHolds.slotStart, from),
+    lt(slotHolds.slotStart, to)
+  ];
+  if (exceptSessionId) conditions.push(ne(slotHolds.sessionId, exceptSessionId));
+
+  const result = await tx.select({ id: slotHolds.id }).from(slotHolds).where(and(...conditions)).limit(1);
+  return result.length > 0;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -159,40 +446,260 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAvailableTimeSlots(date: Date): Promise<string[]> {
-    let bookedSlots: Booking[] = [];
+  async getBooking(id: string): Promise<Booking | undefined> {
+    const dbClient = this.getDb();
+    const result = await dbClient.select().from(bookings).where(eq(bookings.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUpcomingBookingsByEmail(email: string, from: Date): Promise<Booking[]> {
+    const dbClient = this.getDb();
+    return await dbClient.select()
+      .from(bookings)
+      .where(
+        and(
+          ne(bookings.status, "cancelled"),
+          sql`lower(${bookings.email}) = lower(${email})`,
+          gte(bookings.meetingTime, from)
+        )
+      )
+      .orderBy(asc(bookings.meetingTime));
+  }
+
+  async getBookingsBetween(start: Date, end: Date): Promise<Booking[]> {
+    const dbClient = this.getDb();
+    return await dbClient.select()
+      .from(bookings)
+      .where(
+        and(
+          ne(bookings.status, "cancelled"),
+          gte(bookings.meetingTime, start),
+          lte(bookings.meetingTime, end)
+        )
+      );
+  }
+
+  async rescheduleBooking(id: string, meetingTime: Date, hostId: string, conflictMs: number, timezone?: string): Promise<Booking | undefined> {
+    const dbClient = this.getDb();
     try {
-      bookedSlots = await this.getBookingsByDate(date);
+      return await dbClient.transaction(async (tx) => {
+        await lockHostSlots(tx, hostId);
+        if (await hasOverlappingBooking(tx, hostId, meetingTime, conflictMs, id) ||
+            await hasOverlappingHold(tx, hostId, meetingTime, conflictMs)) {
+          return undefined;
+        }
+
+        const result = await tx.update(bookings)
+          .set({
+            meetingTime,
+            hostId,
+            ...(timezone ? { timezone } : {}),
+            updatedAt: sql`now()`,
+            sequence: sql`${bookings.sequence} + 1`
+          })
+          .where(and(eq(bookings.id, id), ne(bookings.status, "cancelled")))
+          .returning();
+        return result[0];
+      });
     } catch (error) {
-      console.warn('Failed to get booked slots, assuming all slots available:', error);
-      bookedSlots = []; // All slots available if DB fails
+      // Unique (host_id, meeting_time) violation - the new slot is already booked
+      if ((error as { code?: string }).code === '23505') return undefined;
+      throw error;
     }
-    const bookedTimes = bookedSlots.map(booking => 
-      booking.meetingTime.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit', 
-        hour12: false 
-      })
-    );
+  }
 
-    // Define available time slots (9 AM to 6 PM, every 30 minutes)
-    const allSlots = [];
-    for (let hour = 9; hour < 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-        if (!bookedTimes.includes(timeString)) {
-          const displayTime = new Date();
-          displayTime.setHours(hour, minute);
-          allSlots.push(displayTime.toLocaleTimeString('en-US', { 
-            hour: 'numeric', 
-            minute: '2-digit', 
-            hour12: true 
-          }));
-        }
+  async cancelBooking(id: string): Promise<Booking | undefined> {
+    const dbClient = this.getDb();
+    const result = await dbClient.update(bookings)
+      .set({ status: "cancelled", updatedAt: sql`now()`, sequence: sql`${bookings.sequence} + 1` })
+      .where(eq(bookings.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async holdSlot(insertHold: InsertSlotHold, conflictMs: number): Promise<SlotHold | undefined> {
+    const dbClient = this.getDb();
+    return await dbClient.transaction(async (tx) => {
+      await lockHostSlots(tx, insertHold.hostId);
+
+      // Drop expired holds (so they can't block the unique index) and this session's previous hold
+      await tx.delete(slotHolds).where(
+        or(
+          lte(slotHolds.expiresAt, sql`now()`),
+          eq(slotHolds.sessionId, insertHold.sessionId)
+        )
+      );
+
+      if (await hasOverlappingBooking(tx, insertHold.hostId, insertHold.slotStart, conflictMs) ||
+          await hasOverlappingHold(tx, insertHold.hostId, insertHold.slotStart, conflictMs)) {
+        return undefined;
       }
-    }
 
-    return allSlots;
+      // The unique (host_id, slot_start) index backs up the check for the same start
+      const result = await tx.insert(slotHolds).values(insertHold).onConflictDoNothing().returning();
+      return result[0];
+    });
+  }
+
+  async getActiveSlotHolds(start: Date, end: Date): Promise<SlotHold[]> {
+    const dbClient = this.getDb();
+    return await dbClient.select()
+      .from(slotHolds)
+      .where(
+        and(
+          gt(slotHolds.expiresAt, sql`now()`),
+          gte(slotHolds.slotStart, start),
+          lte(slotHolds.slotStart, end)
+        )
+      );
+  }
+
+  async releaseSlotHolds(sessionId: string): Promise<void> {
+    const dbClient = this.getDb();
+    await dbClient.delete(slotHolds).where(eq(slotHolds.sessionId, sessionId));
+  }
+
+  async confirmSlotBooking(sessionId: string | undefined, insertBooking: InsertBooking, conflictMs: number): Promise<Booking | undefined> {
+    const dbClient = this.getDb();
+    const hostId = insertBooking.hostId ?? UNASSIGNED_HOST_ID;
+    return await dbClient.transaction(async (tx) => {
+      await lockHostSlots(tx, hostId);
+      // The caller's own hold doesn't block them
+      if (await hasOverlappingBooking(tx, hostId, insertBooking.meetingTime, conflictMs) ||
+          await hasOverlappingHold(tx, hostId, insertBooking.meetingTime, conflictMs, sessionId)) {
+        return undefined;
+      }
+
+      // The unique (host_id, meeting_time) index backs up the check for the same start
+      const result = await tx.insert(bookings).values({
+        ...insertBooking,
+        hostId,
+        bookingTime: sql`now()`
+      }).onConflictDoNothing().returning();
+      if (result.length === 0) return undefined;
+
+      if (sessionId) {
+        await tx.delete(slotHolds).where(eq(slotHolds.sessionId, sessionId));
+      }
+      return result[0];
+    });
+  }
+
+  async getVoiceSession(sessionId: string): Promise<VoiceAgentSession | undefined> {
+    const dbClient = this.getDb();
+    const result = await dbClient.select().from(voiceSessions).where(eq(voiceSessions.sessionId, sessionId)).limit(1);
+    return result[0];
+  }
+
+  async saveVoiceSession(session: VoiceAgentSession): Promise<VoiceAgentSession> {
+    const dbClient = this.getDb();
+    const result = await dbClient.insert(voiceSessions).values({
+      sessionId: session.sessionId,
+      messages: session.messages,
+      collectedData: session.collectedData,
+      timezone: session.timezone ?? null,
+      locale: session.locale ?? null,
+      lastUpdated: session.lastUpdated
+    }).onConflictDoUpdate({
+      target: voiceSessions.sessionId,
+      set: {
+        messages: session.messages,
+        collectedData: session.collectedData,
+        timezone: session.timezone ?? null,
+        locale: session.locale ?? null,
+        lastUpdated: session.lastUpdated
+      }
+    }).returning();
+    return result[0];
+  }
+
+  async findVoiceSessionByContact(name: string, email: string): Promise<VoiceAgentSession | undefined> {
+    const dbClient = this.getDb();
+    const result = await dbClient.select()
+      .from(voiceSessions)
+      .where(
+        and(
+          sql`${voiceSessions.collectedData}->>'name' = ${name}`,
+          sql`${voiceSessions.collectedData}->>'email' = ${email}`
+        )
+      )
+      .orderBy(desc(voiceSessions.lastUpdated))
+      .limit(1);
+    return result[0];
+  }
+
+  async getIdleVoiceSessions(idleSince: Date): Promise<VoiceAgentSession[]> {
+    const dbClient = this.getDb();
+    return await dbClient.select().from(voiceSessions).where(lt(voiceSessions.lastUpdated, idleSince));
+  }
+
+  async deleteIdleVoiceSession(sessionId: string, idleSince: Date): Promise<boolean> {
+    const dbClient = this.getDb();
+    const result = await dbClient.delete(voiceSessions)
+      .where(and(eq(voiceSessions.sessionId, sessionId), lt(voiceSessions.lastUpdated, idleSince)))
+      .returning({ sessionId: voiceSessions.sessionId });
+    return result.length > 0;
+  }
+
+  async countVoiceSessions(): Promise<number> {
+    const dbClient = this.getDb();
+    const result = await dbClient.select({ count: count() }).from(voiceSessions);
+    return result[0]?.count ?? 0;
+  }
+
+  async createSessionEvent(insertEvent: InsertSessionEvent): Promise<SessionEvent> {
+    const dbClient = this.getDb();
+    const result = await dbClient.insert(sessionEvents).values(insertEvent).returning();
+    return result[0];
+  }
+
+  async countSessionEvents(type: string): Promise<number> {
+    const dbClient = this.getDb();
+    const result = await dbClient.select({ count: count() }).from(sessionEvents).where(eq(sessionEvents.type, type));
+    return result[0]?.count ?? 0;
+  }
+
+  async createScheduledJob(insertJob: InsertScheduledJob): Promise<ScheduledJob> {
+    const dbClient = this.getDb();
+    const result = await dbClient.insert(scheduledJobs).values(insertJob).returning();
+    return result[0];
+  }
+
+  async getDueScheduledJobs(now: Date, limit: number): Promise<ScheduledJob[]> {
+    const dbClient = this.getDb();
+    return await dbClient.select()
+      .from(scheduledJobs)
+      .where(and(inArray(scheduledJobs.status, ["pending", "sending"]), lte(scheduledJobs.runAt, now)))
+      .orderBy(asc(scheduledJobs.runAt))
+      .limit(limit);
+  }
+
+  async claimScheduledJob(id: string, now: Date, leaseUntil: Date): Promise<ScheduledJob | undefined> {
+    const dbClient = this.getDb();
+    // Conditional update - only one worker can move a due job into its lease
+    const result = await dbClient.update(scheduledJobs)
+      .set({ status: "sending", runAt: leaseUntil, attempts: sql`${scheduledJobs.attempts} + 1` })
+      .where(and(
+        eq(scheduledJobs.id, id),
+        inArray(scheduledJobs.status, ["pending", "sending"]),
+        lte(scheduledJobs.runAt, now)
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async updateScheduledJob(id: string, update: ScheduledJobUpdate): Promise<void> {
+    const dbClient = this.getDb();
+    await dbClient.update(scheduledJobs).set(update).where(eq(scheduledJobs.id, id));
+  }
+
+  async cancelPendingScheduledJobs(bookingId: string): Promise<number> {
+    const dbClient = this.getDb();
+    const result = await dbClient.update(scheduledJobs)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(and(eq(scheduledJobs.bookingId, bookingId), eq(scheduledJobs.status, "pending")))
+      .returning({ id: scheduledJobs.id });
+    return result.length;
   }
 }
 
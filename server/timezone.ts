@@ -0,0 +1,90 @@
+// ============================================================================
+// TIMEZONE HELPERS - IANA timezone math on top of Intl (no extra dependencies)
+// ============================================================================
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock parts of an instant as seen in the given timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset (ms) of the timezone from UTC at the given instant
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUTC - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// Convert a wall-clock date ("YYYY-MM-DD") and time in a timezone to a UTC instant
+export function zonedTimeToUtc(dateKey: string, hours: number, minutes: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  // Two passes settle the offset across DST transitions
+  let offset = getTimeZoneOffset(new Date(guess), timeZone);
+  offset = getTimeZoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - offset);
+}
+
+// Calendar date ("YYYY-MM-DD") of an instant in a timezone
+export function toDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+}
+
+// Weekday (0 = Sunday) of a calendar date
+export function getDateKeyWeekday(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Parse "HH:MM" into minutes after midnight
+export function parseClock(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
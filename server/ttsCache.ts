@@ -0,0 +1,317 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Locale } from "@shared/schema";
+import { ttsProvider, type TTSAudio, type TTSOptions } from "./ttsProviders";
+import { toSpokenText } from "./ttsPronunciation";
+
+// ============================================================================
+// TTS AUDIO CACHE - synthesized audio on disk, addressed by a hash of what produced it
+// ============================================================================
+// Each clip is stored as <hash>.audio with a <hash>.json sidecar (text hash, content type, size).
+// Only pinned phrases keep their text there; other clips are replies that can hold callers' names
+// and emails, so they are matched by a hash of the text instead. The clip hash covers the spoken text (see ttsPronunciation.ts), provider, model, voice and settings, so a
+// changed voice or lexicon never serves old audio and restarts reuse everything already paid for.
+// Clips are served by GET /api/tts/audio/:hash.
+//
+// The cache keeps to a byte budget by evicting the least recently (lru) or least often (lfu) used
+// clips. Pinned clips - the common phrases and anything pre-warmed at runtime - are never evicted.
+
+const TTS_CACHE_DIR = path.resolve(process.env.TTS_CACHE_DIR || path.join(process.cwd(), ".cache", "tts"));
+
+// Byte budget (TTS_CACHE_MAX_MB, default 200) and eviction policy (TTS_CACHE_POLICY, lru | lfu)
+const MAX_BYTES = parseFloat(process.env.TTS_CACHE_MAX_MB || "200") * 1024 * 1024;
+const EVICTION_POLICY: "lru" | "lfu" = process.env.TTS_CACHE_POLICY === "lfu" ? "lfu" : "lru";
+
+const TOP_CLIPS = 10;
+
+export interface TTSCacheEntry {
+  hash: string;
+  // sha256 of the text, for purging by phrase
+  textHash: string;
+  // Pinned clips only
+  text?: string;
+  locale: Locale | null;
+  contentType: string;
+  bytes: number;
+  createdAt: number;
+  pinned: boolean;
+  // Usage since startup; clips from earlier runs start at their creation time
+  hits: number;
+  lastUsedAt: number;
+}
+
+export interface CachedTTS {
+  entry: TTSCacheEntry;
+  // Already on disk, nothing was synthesized
+  cached: boolean;
+}
+
+export interface TTSCacheStats {
+  provider: string;
+  policy: "lru" | "lfu";
+  entries: number;
+  pinned: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  // Replies assembled from cached template segments (ttsTemplates.ts)
+  spliced: number;
+  // Only pinned clips have text; the rest are replies that can hold callers' names and emails
+  topClips: Array<Pick<TTSCacheEntry, "hash" | "locale" | "hits" | "bytes" | "pinned"> & { text?: string }>;
+}
+
+const entries = new Map<string, TTSCacheEntry>();
+// Synthesis in progress
+const inFlight = new Map<string, Promise<TTSCacheEntry>>();
+
+let totalBytes = 0;
+const counters = { hits: 0, misses: 0, evictions: 0, spliced: 0 };
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export function isTTSHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+export function ttsAudioHash(text: string, options: TTSOptions = {}): string {
+  const key = JSON.stringify({ text: toSpokenText(text, options.locale), provider: ttsProvider.id, ...ttsProvider.audioSettings(options) });
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function textHashOf(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function ttsAudioUrl(hash: string): string {
+  return `/api/tts/audio/${hash}`;
+}
+
+export function ttsAudioPath(hash: string): string {
+  return path.join(TTS_CACHE_DIR, `${hash}.audio`);
+}
+
+function metadataPath(hash: string): string {
+  return path.join(TTS_CACHE_DIR, `${hash}.json`);
+}
+
+export function getTTSCacheEntry(hash: string): TTSCacheEntry | undefined {
+  return entries.get(hash);
+}
+
+export function getTTSCacheSize(): number {
+  return entries.size;
+}
+
+async function writeMetadata(entry: TTSCacheEntry): Promise<void> {
+  const { hash, hits, lastUsedAt, ...metadata } = entry;
+  await fs.writeFile(metadataPath(hash), JSON.stringify(metadata));
+}
+
+async function removeEntry(entry: TTSCacheEntry): Promise<void> {
+  entries.delete(entry.hash);
+  totalBytes -= entry.bytes;
+  await Promise.all([
+    fs.rm(metadataPath(entry.hash), { force: true }),
+    fs.rm(ttsAudioPath(entry.hash), { force: true }),
+  ]);
+}
+
+// Index the clips saved by earlier runs
+export async function loadTTSCache(): Promise<void> {
+  await fs.mkdir(TTS_CACHE_DIR, { recursive: true });
+  const files = await fs.readdir(TTS_CACHE_DIR);
+
+  for (const file of files) {
+    const hash = file.replace(/\.json$/, "");
+    if (hash === file || !isTTSHash(hash) || entries.has(hash)) continue;
+    try {
+      const metadata = JSON.parse(await fs.readFile(metadataPath(hash), "utf8"));
+      const entry: TTSCacheEntry = { pinned: false, ...metadata, hash, hits: 0, lastUsedAt: metadata.createdAt };
+      entries.set(hash, entry);
+      totalBytes += entry.bytes;
+      // Sidecars from before text hashes kept every reply's text
+      if (!entry.textHash && entry.text !== undefined) {
+        entry.textHash = textHashOf(entry.text);
+        if (!entry.pinned) delete entry.text;
+        await writeMetadata(entry);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Skipping unreadable TTS cache entry ${hash}:`, error);
+    }
+  }
+  console.log(`💾 TTS cache: ${entries.size} clips (${(totalBytes / 1024 / 1024).toFixed(1)} MB) in ${TTS_CACHE_DIR}`);
+  await evictOverBudget();
+}
+
+// The clip the policy gives up first: oldest use (lru), or fewest hits then oldest use (lfu)
+function pickVictim(keep?: string): TTSCacheEntry | undefined {
+  let victim: TTSCacheEntry | undefined;
+  for (const entry of Array.from(entries.values())) {
+    if (entry.pinned || entry.hash === keep) continue;
+    if (!victim) {
+      victim = entry;
+      continue;
+    }
+    const fewerHits = entry.hits - victim.hits;
+    if (EVICTION_POLICY === "lfu" && fewerHits !== 0) {
+      if (fewerHits < 0) victim = entry;
+    } else if (entry.lastUsedAt < victim.lastUsedAt) {
+      victim = entry;
+    }
+  }
+  return victim;
+}
+
+async function evictOverBudget(keep?: string): Promise<void> {
+  let evicted = 0;
+  while (totalBytes > MAX_BYTES) {
+    const victim = pickVictim(keep);
+    if (!victim) break;
+    await removeEntry(victim);
+    evicted++;
+  }
+  if (evicted > 0) {
+    counters.evictions += evicted;
+    console.log(`🧹 TTS cache evicted ${evicted} clip(s) (${EVICTION_POLICY}), ${(totalBytes / 1024 / 1024).toFixed(1)} MB kept`);
+  }
+}
+
+async function saveToDisk(hash: string, text: string, options: TTSOptions, { audio, contentType }: TTSAudio): Promise<TTSCacheEntry> {
+  const now = Date.now();
+  const entry: TTSCacheEntry = {
+    hash,
+    textHash: textHashOf(text),
+    locale: options.locale ?? null,
+    contentType,
+    bytes: audio.length,
+    createdAt: now,
+    pinned: false,
+    hits: 0,
+    lastUsedAt: now,
+  };
+
+  // The sidecar is written last, so a clip only counts as cached once its audio is complete
+  await fs.mkdir(TTS_CACHE_DIR, { recursive: true });
+  await fs.writeFile(ttsAudioPath(hash), audio);
+  await writeMetadata(entry);
+  // A clip written again replaces the old one in the byte count
+  totalBytes += entry.bytes - (entries.get(hash)?.bytes ?? 0);
+  entries.set(hash, entry);
+  await evictOverBudget(hash);
+  return entry;
+}
+
+async function synthesizeToDisk(hash: string, text: string, options: TTSOptions): Promise<TTSCacheEntry> {
+  return saveToDisk(hash, text, options, await ttsProvider.synthesize(toSpokenText(text, options.locale), options));
+}
+
+// Concurrent requests for the same clip share one provider call (or splice)
+function produceOnce(hash: string, produce: () => Promise<TTSCacheEntry>): Promise<TTSCacheEntry> {
+  let pending = inFlight.get(hash);
+  if (!pending) {
+    pending = produce().finally(() => inFlight.delete(hash));
+    inFlight.set(hash, pending);
+  }
+  return pending;
+}
+
+function synthesizeOnce(hash: string, text: string, options: TTSOptions): Promise<TTSCacheEntry> {
+  return produceOnce(hash, () => synthesizeToDisk(hash, text, options));
+}
+
+// A cached clip, counted as a hit
+function useCached(hash: string): CachedTTS | undefined {
+  const existing = entries.get(hash);
+  if (!existing) return undefined;
+  existing.hits++;
+  existing.lastUsedAt = Date.now();
+  counters.hits++;
+  return { entry: existing, cached: true };
+}
+
+// The clip for this text and voice, synthesized and saved on the first request. Throws when the
+// provider fails.
+export async function getOrSynthesizeTTS(text: string, options: TTSOptions = {}): Promise<CachedTTS> {
+  const hash = ttsAudioHash(text, options);
+  const cached = useCached(hash);
+  if (cached) return cached;
+
+  counters.misses++;
+  return { entry: await synthesizeOnce(hash, text, options), cached: false };
+}
+
+// Like getOrSynthesizeTTS, but a missing clip is assembled by splice() from other clips (see
+// ttsTemplates.ts). Throws when splicing fails.
+export async function getOrSpliceTTS(text: string, options: TTSOptions, splice: () => Promise<TTSAudio>): Promise<CachedTTS> {
+  const hash = ttsAudioHash(text, options);
+  const cached = useCached(hash);
+  if (cached) return cached;
+
+  counters.misses++;
+  const entry = await produceOnce(hash, async () => {
+    const audio = await splice();
+    counters.spliced++;
+    return saveToDisk(hash, text, options, audio);
+  });
+  return { entry, cached: false };
+}
+
+// Synthesize (if needed) and pin phrases so they are never evicted. Doesn't count as cache hits.
+export async function warmTTSCache(phrases: string[], locale?: Locale | null): Promise<{ warmed: number; failed: string[] }> {
+  const failed: string[] = [];
+  await Promise.all(phrases.map(async phrase => {
+    const hash = ttsAudioHash(phrase, { locale });
+    try {
+      const entry = entries.get(hash) ?? await synthesizeOnce(hash, phrase, { locale });
+      if (!entry.pinned) {
+        entry.pinned = true;
+        entry.text = phrase;
+        await writeMetadata(entry);
+      }
+    } catch (error) {
+      console.error(`Failed to warm TTS for: "${phrase.substring(0, 50)}..."`, error);
+      failed.push(phrase);
+    }
+  }));
+  return { warmed: phrases.length - failed.length, failed };
+}
+
+// Remove the clips of these phrases (in every voice and language), or every clip. Returns the
+// number removed.
+export async function purgeTTSCache(phrases?: string[]): Promise<number> {
+  const textHashes = phrases ? new Set(phrases.map(textHashOf)) : undefined;
+  const purged = Array.from(entries.values()).filter(entry => !textHashes || textHashes.has(entry.textHash));
+  for (const entry of purged) {
+    await removeEntry(entry);
+  }
+  if (purged.length > 0) {
+    console.log(`🗑️ Purged ${purged.length} clip(s) from the TTS cache`);
+  }
+  return purged.length;
+}
+
+export function getTTSCacheStats(): TTSCacheStats {
+  const all = Array.from(entries.values());
+  const lookups = counters.hits + counters.misses;
+  return {
+    provider: ttsProvider.id,
+    policy: EVICTION_POLICY,
+    entries: all.length,
+    pinned: all.filter(entry => entry.pinned).length,
+    bytes: totalBytes,
+    maxBytes: MAX_BYTES,
+    hits: counters.hits,
+    misses: counters.misses,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    evictions: counters.evictions,
+    spliced: counters.spliced,
+    topClips: all
+      .sort((a, b) => b.hits - a.hits)
+      .slice(0, TOP_CLIPS)
+      .map(({ hash, text, locale, hits, bytes, pinned }) => ({ hash, locale, hits, bytes, pinned, ...(pinned ? { text } : {}) })),
+  };
+}
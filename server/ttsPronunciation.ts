@@ -0,0 +1,168 @@
+import type { Locale } from "@shared/schema";
+
+// ============================================================================
+// TTS PRONUNCIATION - emails, times, dates and brand names in the words the voice should say
+// ============================================================================
+// Voices read "john_smith@gmail.com" or "2:30 PM" however they like, which breaks the email
+// read-back the caller has to confirm. Before text reaches the TTS provider, emails are spelled
+// out letter by letter, clock times and dates become words, and lexicon entries ("SleeckOS") are
+// replaced with how they sound. Plain text works with every provider, unlike SSML.
+//
+// TTS_LEXICON adds entries as JSON, e.g. {"Calendly": "Calendlee"}.
+
+interface SpokenForms {
+  // Email symbols
+  at: string;
+  dot: string;
+  underscore: string;
+  dash: string;
+  plus: string;
+  // 2:30 PM → "two thirty P M"; meridiem is unset for 24-hour times
+  time(hours: number, minutes: number, meridiem?: "am" | "pm"): string;
+  // March 3rd → "March third"; unset keeps the date as written
+  date?(month: string, day: number): string;
+}
+
+const DEFAULT_LEXICON: Record<string, string> = {
+  SleeckOS: "Sleek O S",
+};
+
+// Domain labels said as words; anything else is spelled
+const SPOKEN_DOMAIN_LABELS = new Set([
+  "gmail", "googlemail", "yahoo", "hotmail", "outlook", "live", "icloud", "aol", "proton", "protonmail",
+  "com", "org", "net", "edu", "gov", "info",
+]);
+
+const ONES = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty"];
+const ORDINALS = ["", "first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth",
+  "eleventh", "twelfth", "thirteenth", "fourteenth", "fifteenth", "sixteenth", "seventeenth", "eighteenth", "nineteenth"];
+
+// 0-59
+function englishNumber(n: number): string {
+  if (n < 20) return ONES[n];
+  return TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : "");
+}
+
+// 1-31
+function englishOrdinal(n: number): string {
+  if (n < 20) return ORDINALS[n];
+  const tens = n < 30 ? "twenty" : "thirty";
+  return n % 10 ? `${tens} ${ORDINALS[n % 10]}` : `${tens.slice(0, -1)}ieth`;
+}
+
+function englishTime(hours: number, minutes: number, meridiem?: "am" | "pm"): string {
+  let spoken = englishNumber(hours);
+  if (minutes > 0) {
+    spoken += minutes < 10 ? ` oh ${ONES[minutes]}` : ` ${englishNumber(minutes)}`;
+  } else if (!meridiem) {
+    spoken += hours === 0 || hours > 12 ? " hundred" : " o'clock";
+  }
+  return meridiem ? `${spoken} ${meridiem === "am" ? "A M" : "P M"}` : spoken;
+}
+
+function spanishTime(hours: number, minutes: number, meridiem?: "am" | "pm"): string {
+  const spoken = minutes === 0 ? `${hours}`
+    : minutes === 15 ? `${hours} y cuarto`
+    : minutes === 30 ? `${hours} y media`
+    : `${hours} y ${minutes}`;
+  if (!meridiem) return spoken;
+  if (meridiem === "am") return `${spoken} de la mañana`;
+  return `${spoken} ${hours === 12 || hours < 8 ? "de la tarde" : "de la noche"}`;
+}
+
+function hindiTime(hours: number, minutes: number, meridiem?: "am" | "pm"): string {
+  const spoken = minutes === 0 ? `${hours} बजे` : `${hours} बजकर ${minutes} मिनट`;
+  if (!meridiem) return spoken;
+  if (meridiem === "am") return `सुबह ${spoken}`;
+  const hour24 = hours % 12 + 12;
+  return `${hour24 < 16 ? "दोपहर" : hour24 < 20 ? "शाम" : "रात"} ${spoken}`;
+}
+
+const SPOKEN_FORMS: Record<Locale, SpokenForms> = {
+  en: {
+    at: "at", dot: "dot", underscore: "underscore", dash: "dash", plus: "plus",
+    time: englishTime,
+    date: (month, day) => `${month} ${englishOrdinal(day)}`,
+  },
+  es: {
+    at: "arroba", dot: "punto", underscore: "guion bajo", dash: "guion", plus: "más",
+    time: spanishTime,
+  },
+  // Hindi callers say emails in English ("at the rate" is how they're read out in India)
+  hi: {
+    at: "at the rate", dot: "dot", underscore: "underscore", dash: "dash", plus: "plus",
+    time: hindiTime,
+  },
+};
+
+function loadLexicon(): Array<[RegExp, string]> {
+  let custom: Record<string, string> = {};
+  if (process.env.TTS_LEXICON) {
+    try {
+      custom = JSON.parse(process.env.TTS_LEXICON);
+    } catch (error) {
+      console.error('Invalid TTS_LEXICON JSON, using the default lexicon:', error);
+    }
+  }
+  return Object.entries({ ...DEFAULT_LEXICON, ...custom }).map(([term, spoken]) => [
+    new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`, "giu"),
+    spoken,
+  ]);
+}
+
+const LEXICON = loadLexicon();
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+// 2:30 PM, 10am, 3 p.m., 14:30
+const CLOCK_TIME = /\b(\d{1,2})(?::(\d{2}))?(?:\s?([ap])(?:\.m\.?|m\b))?/gi;
+const MONTH_DAY = /\b(January|February|March|April|May|June|July|August|September|October|November|December) (\d{1,2})(?:st|nd|rd|th)?\b/g;
+
+// One letter or digit at a time; symbols as words
+function spell(value: string, forms: SpokenForms): string {
+  return value.split("").map(char => {
+    switch (char) {
+      case ".": return forms.dot;
+      case "_": return forms.underscore;
+      case "-": return forms.dash;
+      case "+": return forms.plus;
+      default: return char.toUpperCase();
+    }
+  }).join(" ");
+}
+
+// john_smith@gmail.com → "J O H N underscore S M I T H at gmail dot com"
+export function spellEmail(email: string, locale?: Locale | null): string {
+  const forms = SPOKEN_FORMS[locale ?? "en"];
+  const [local, domain] = email.toLowerCase().split("@");
+  const labels = domain.split(".").map(label => SPOKEN_DOMAIN_LABELS.has(label) ? label : spell(label, forms));
+  return `${spell(local, forms)} ${forms.at} ${labels.join(` ${forms.dot} `)}`;
+}
+
+// The text as the voice should say it
+export function toSpokenText(text: string, locale?: Locale | null): string {
+  const forms = SPOKEN_FORMS[locale ?? "en"];
+
+  let spoken = text.replace(EMAIL, email => spellEmail(email, locale));
+
+  spoken = spoken.replace(CLOCK_TIME, (match, hours: string, minutes: string | undefined, meridiem: string | undefined, offset: number, whole: string) => {
+    const hour = parseInt(hours, 10);
+    const minute = minutes ? parseInt(minutes, 10) : 0;
+    // A bare number isn't a time
+    if ((!minutes && !meridiem) || hour > 23 || minute > 59 || (meridiem && (hour === 0 || hour > 12))) return match;
+    const time = forms.time(hour, minute, meridiem ? (meridiem.toLowerCase() === "a" ? "am" : "pm") : undefined);
+    // "at 3 p.m. Thanks" - the dot of "p.m." also ends the sentence
+    const endsSentence = match.endsWith(".") && /^(\s+[A-Z¿¡]|\s*$)/.test(whole.slice(offset + match.length));
+    return endsSentence ? `${time}.` : time;
+  });
+
+  if (forms.date) {
+    spoken = spoken.replace(MONTH_DAY, (match, month: string, day: string) => {
+      const dayNumber = parseInt(day, 10);
+      return dayNumber >= 1 && dayNumber <= 31 ? forms.date!(month, dayNumber) : match;
+    });
+  }
+
+  return LEXICON.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), spoken);
+}
@@ -0,0 +1,208 @@
+import { spawn } from "child_process";
+import OpenAI from "openai";
+import type { Locale } from "@shared/schema";
+import { getLocale } from "./locales";
+
+// ============================================================================
+// TTS PROVIDERS - ElevenLabs, OpenAI or a local engine (Piper / eSpeak), chosen by TTS_PROVIDER
+// ============================================================================
+
+export type TTSProviderId = "elevenlabs" | "openai" | "local";
+
+export interface TTSOptions {
+  locale?: Locale | null;
+  // Provider-specific voice (ElevenLabs voice ID, OpenAI voice, eSpeak voice); defaults per locale
+  voice?: string;
+}
+
+export interface TTSAudio {
+  audio: Buffer;
+  contentType: string;
+}
+
+export interface TTSProvider {
+  id: TTSProviderId;
+  // Everything besides the text that changes the audio (model, voice, language, settings)
+  audioSettings(options?: TTSOptions): Record<string, unknown>;
+  // Throws when synthesis fails
+  synthesize(text: string, options?: TTSOptions): Promise<TTSAudio>;
+}
+
+// ElevenLabs "Rachel" speaks all three languages with eleven_flash_v2_5
+const DEFAULT_ELEVENLABS_VOICE_ID = "21m00Tcm4TlvDq8ikWAM";
+
+// Per-language voices: ELEVENLABS_VOICE_ID, ELEVENLABS_VOICE_ID_ES, ELEVENLABS_VOICE_ID_HI
+function elevenLabsVoice(locale: Locale): string {
+  const suffix = locale === "en" ? "" : `_${locale.toUpperCase()}`;
+  return process.env[`ELEVENLABS_VOICE_ID${suffix}`] || DEFAULT_ELEVENLABS_VOICE_ID;
+}
+
+function createElevenLabsProvider(apiKey: string): TTSProvider {
+  const model = "eleven_flash_v2_5"; // Flash v2.5: 75-135ms latency
+  const voiceSettings = { stability: 0.5, similarity_boost: 0.5 };
+
+  return {
+    id: "elevenlabs",
+    audioSettings: ({ locale, voice } = {}) => ({
+      model,
+      voice: voice ?? elevenLabsVoice(locale ?? "en"),
+      languageCode: getLocale(locale).tts.languageCode,
+      voiceSettings,
+    }),
+    async synthesize(text, { locale, voice } = {}) {
+      const voiceId = voice ?? elevenLabsVoice(locale ?? "en");
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: model,
+          language_code: getLocale(locale).tts.languageCode,
+          voice_settings: voiceSettings,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
+      }
+      return { audio: Buffer.from(await response.arrayBuffer()), contentType: "audio/mpeg" };
+    },
+  };
+}
+
+// OpenAI voices speak whatever language the text is in
+function createOpenAIProvider(apiKey: string): TTSProvider {
+  const client = new OpenAI({ apiKey });
+  const model = process.env.OPENAI_TTS_MODEL || "gpt-4o-mini-tts";
+  const defaultVoice = process.env.OPENAI_TTS_VOICE || "alloy";
+
+  return {
+    id: "openai",
+    audioSettings: ({ voice } = {}) => ({ model, voice: voice ?? defaultVoice }),
+    async synthesize(text, { voice } = {}) {
+      const response = await client.audio.speech.create({
+        model,
+        voice: voice ?? defaultVoice,
+        input: text,
+        response_format: "mp3",
+      });
+      return { audio: Buffer.from(await response.arrayBuffer()), contentType: "audio/mpeg" };
+    },
+  };
+}
+
+// A local engine that hangs or never stops writing is killed rather than holding up the turn
+const ENGINE_TIMEOUT_MS = parseInt(process.env.LOCAL_TTS_TIMEOUT_MS || "15000", 10);
+// Minutes of speech; replies are a sentence or two
+const MAX_ENGINE_OUTPUT_BYTES = 20 * 1024 * 1024;
+
+// Runs a TTS command with the text on stdin and collects the WAV it writes to stdout
+function runEngine(command: string, args: string[], text: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let stderr = "";
+    let failure: Error | undefined;
+
+    // Settles right away; the engine's own children may hold its pipes open after it's killed
+    const fail = (error: Error) => {
+      if (failure) return;
+      failure = error;
+      clearTimeout(timer);
+      child.kill("SIGKILL");
+      child.stdout.destroy();
+      child.stderr.destroy();
+      reject(error);
+    };
+    const timer = setTimeout(() => fail(new Error(`${command} timed out after ${ENGINE_TIMEOUT_MS}ms`)), ENGINE_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > MAX_ENGINE_OUTPUT_BYTES) {
+        fail(new Error(`${command} wrote more than ${MAX_ENGINE_OUTPUT_BYTES} bytes`));
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    child.stderr.on("data", chunk => (stderr += chunk));
+    // An engine killed before reading all of the text closes stdin early
+    child.stdin.on("error", () => {});
+    child.on("error", fail);
+    child.on("close", code => {
+      clearTimeout(timer);
+      if (failure) return;
+      if (code === 0 && chunks.length > 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().substring(0, 200)}`));
+      }
+    });
+
+    child.stdin.end(text);
+  });
+}
+
+// Offline synthesis for development and CI. LOCAL_TTS_ENGINE=piper uses the voice model in
+// PIPER_MODEL (PIPER_MODEL_ES / PIPER_MODEL_HI for the other languages); otherwise eSpeak NG.
+function createLocalProvider(): TTSProvider {
+  const engine = process.env.LOCAL_TTS_ENGINE || "espeak";
+
+  const piperModel = (locale: Locale | null | undefined) => {
+    const suffix = (locale ?? "en") === "en" ? "" : `_${locale!.toUpperCase()}`;
+    return process.env[`PIPER_MODEL${suffix}`] ?? process.env.PIPER_MODEL;
+  };
+
+  return {
+    id: "local",
+    audioSettings: ({ locale, voice } = {}) => ({
+      engine,
+      voice: voice ?? (engine === "piper" ? piperModel(locale) : getLocale(locale).tts.languageCode),
+    }),
+    async synthesize(text, { locale, voice } = {}) {
+      const languageCode = getLocale(locale).tts.languageCode;
+
+      if (engine === "piper") {
+        const model = voice ?? piperModel(locale);
+        if (!model) throw new Error(`No Piper voice model configured for ${locale ?? "en"}`);
+        const audio = await runEngine(process.env.PIPER_BIN || "piper", ["--model", model, "--output_file", "/dev/stdout", "--quiet"], text);
+        return { audio, contentType: "audio/wav" };
+      }
+
+      const audio = await runEngine(process.env.ESPEAK_BIN || "espeak-ng", ["--stdin", "--stdout", "-v", voice ?? languageCode], text);
+      return { audio, contentType: "audio/wav" };
+    },
+  };
+}
+
+// TTS_PROVIDER selects the provider (elevenlabs | openai | local). Without it, ElevenLabs is used
+// when ELEVENLABS_API_KEY is set, then OpenAI when OPENAI_API_KEY is set, otherwise the local
+// engine. A provider missing its API key falls back to the local engine.
+function loadTTSProvider(): TTSProvider {
+  const elevenLabsKey = process.env.ELEVENLABS_API_KEY;
+  const openAIKey = process.env.OPENAI_API_KEY;
+  const configured = process.env.TTS_PROVIDER || (elevenLabsKey ? "elevenlabs" : openAIKey ? "openai" : "local");
+
+  switch (configured) {
+    case "elevenlabs":
+      if (elevenLabsKey) return createElevenLabsProvider(elevenLabsKey);
+      console.error('TTS_PROVIDER=elevenlabs requires ELEVENLABS_API_KEY, using local TTS');
+      return createLocalProvider();
+    case "openai":
+      if (openAIKey) return createOpenAIProvider(openAIKey);
+      console.error('TTS_PROVIDER=openai requires OPENAI_API_KEY, using local TTS');
+      return createLocalProvider();
+    case "local":
+      return createLocalProvider();
+    default:
+      console.error(`Unknown TTS_PROVIDER "${configured}", using local TTS`);
+      return createLocalProvider();
+  }
+}
+
+export const ttsProvider = loadTTSProvider();
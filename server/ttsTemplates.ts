@@ -0,0 +1,256 @@
+import { promises as fs } from "fs";
+import { getOrSpliceTTS, getOrSynthesizeTTS, ttsAudioPath, type CachedTTS } from "./ttsCache";
+import type { TTSAudio, TTSOptions } from "./ttsProviders";
+
+// ============================================================================
+// TTS TEMPLATES - reuse cached audio for replies that differ only in a name, email or time
+// ============================================================================
+// "Thanks John, you're booked for 2:30 PM. See you then!" is split into static segments ("you're
+// booked for", "See you then!") and slot values ("Thanks John", "2:30 PM."). Each segment is a clip
+// of its own in the TTS cache, so the static wording is synthesized once and reused across callers;
+// only the values are new. Wording too short to be worth its own clip ("Thanks", "at") is spoken
+// with the value next to it. The clips are joined server-side into one playable file, saved under
+// the whole reply's hash.
+//
+// TTS_TEMPLATE_SPLICING=false synthesizes every reply whole.
+
+const SPLICING_ENABLED = process.env.TTS_TEMPLATE_SPLICING !== "false";
+
+// More pieces than this sound choppy; the reply is synthesized whole instead
+const MAX_SEGMENTS = 5;
+
+// Shorter static wording is merged into the neighbouring slot value rather than cached on its own
+const MIN_STATIC_WORDS = 3;
+
+const MONTH_NAMES = "january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec";
+
+// Values that change from call to call. Weekdays are left in the static wording - there are only seven.
+const SLOT_PATTERNS = [
+  // john.smith@gmail.com
+  /[^\s@]+@[^\s@]+\.[a-z]{2,}/gi,
+  // 2:30 PM, 10am, 3 p.m.
+  /\b\d{1,2}(?::\d{2})?\s?[ap]\.?m\b\.?/gi,
+  // 14:30
+  /\b\d{1,2}:\d{2}\b/g,
+  // March 3, Mar 3rd
+  new RegExp(`\\b(?:${MONTH_NAMES})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?\\b`, "gi"),
+  // the 3rd
+  /\b\d{1,2}(?:st|nd|rd|th)\b/gi,
+];
+
+// Caller details the reply may repeat back
+export interface TTSTemplateValues {
+  name?: string;
+  email?: string;
+}
+
+export interface TTSSegment {
+  text: string;
+  // A slot value rather than template wording
+  dynamic: boolean;
+}
+
+export interface TemplatedTTS extends CachedTTS {
+  // Set when the clip was joined from segment clips
+  spliced?: { segments: number; cachedSegments: number };
+}
+
+const HAS_WORDS = new RegExp("[\\p{L}\\p{N}]", "u");
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => HAS_WORDS.test(word)).length;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Character ranges of the slot values in the text, sorted and merged
+function findSlots(text: string, values: TTSTemplateValues): Array<[number, number]> {
+  const patterns = [...SLOT_PATTERNS];
+  for (const value of [values.name, values.email]) {
+    const trimmed = value?.trim();
+    if (trimmed) {
+      // Word boundaries that also work for Spanish and Hindi names
+      patterns.push(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}])`, "giu"));
+    }
+  }
+
+  const ranges: Array<[number, number]> = [];
+  for (const pattern of patterns) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+// The reply as template wording and slot values, or null when it has no slot values worth splitting out
+export function splitTTSTemplate(text: string, values: TTSTemplateValues = {}): TTSSegment[] | null {
+  const slots = findSlots(text, values);
+  if (slots.length === 0) return null;
+
+  // Consecutive pieces of the same kind run together, so short wording joins the value beside it
+  const pieces: TTSSegment[] = [];
+  const add = (piece: string, dynamic: boolean) => {
+    const last = pieces[pieces.length - 1];
+    if (last && last.dynamic === dynamic) {
+      last.text += piece;
+    } else {
+      pieces.push({ text: piece, dynamic });
+    }
+  };
+
+  let offset = 0;
+  for (const [start, end] of slots) {
+    const wording = text.slice(offset, start);
+    add(wording, countWords(wording) < MIN_STATIC_WORDS);
+    add(text.slice(start, end), true);
+    offset = end;
+  }
+  const rest = text.slice(offset);
+  add(rest, countWords(rest) < MIN_STATIC_WORDS);
+
+  const segments: TTSSegment[] = [];
+  for (const piece of pieces) {
+    // Punctuation opening a static piece belongs to the value before it ("John, you're")
+    const trimmed = (piece.dynamic ? piece.text : piece.text.replace(/^[\s,;:.!?]+/, "")).trim();
+    if (HAS_WORDS.test(trimmed)) segments.push({ text: trimmed, dynamic: piece.dynamic });
+  }
+
+  if (segments.length < 2 || segments.length > MAX_SEGMENTS || segments.every(segment => segment.dynamic)) {
+    return null;
+  }
+  return segments;
+}
+
+// ============================================================================
+// AUDIO JOINING - MP3 frames are concatenated as-is, WAV clips get one new header
+// ============================================================================
+
+function syncsafe(bytes: Buffer): number {
+  return ((bytes[0] & 0x7f) << 21) | ((bytes[1] & 0x7f) << 14) | ((bytes[2] & 0x7f) << 7) | (bytes[3] & 0x7f);
+}
+
+// Drops the ID3 tags inside the joined stream: ID3v2 at the start of every clip but the first,
+// ID3v1 at the end of every clip but the last
+function joinMpeg(clips: Buffer[]): Buffer {
+  return Buffer.concat(clips.map((clip, i) => {
+    let start = 0;
+    let end = clip.length;
+    if (i > 0 && clip.length >= 10 && clip.toString("latin1", 0, 3) === "ID3") {
+      const footer = clip[5] & 0x10 ? 10 : 0;
+      start = Math.min(clip.length, 10 + syncsafe(clip.subarray(6, 10)) + footer);
+    }
+    if (i < clips.length - 1 && end - start >= 128 && clip.toString("latin1", end - 128, end - 125) === "TAG") {
+      end -= 128;
+    }
+    return clip.subarray(start, end);
+  }));
+}
+
+function parseWav(clip: Buffer): { format: Buffer; data: Buffer } {
+  if (clip.length < 12 || clip.toString("ascii", 0, 4) !== "RIFF" || clip.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a WAV clip");
+  }
+
+  let format: Buffer | undefined;
+  let offset = 12;
+  while (offset + 8 <= clip.length) {
+    const id = clip.toString("ascii", offset, offset + 4);
+    const size = clip.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      format = clip.subarray(body, body + size);
+    } else if (id === "data") {
+      if (!format) break;
+      // Engines writing to a pipe can't go back to fill in the size, so it may overstate the data
+      return { format, data: clip.subarray(body, Math.min(body + size, clip.length)) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV clip has no fmt/data chunks");
+}
+
+function joinWav(clips: Buffer[]): Buffer {
+  const parts = clips.map(parseWav);
+  const format = parts[0].format;
+  if (parts.some(part => !part.format.equals(format))) {
+    throw new Error("WAV clips differ in format");
+  }
+
+  const dataBytes = parts.reduce((sum, part) => sum + part.data.length, 0);
+  const header = Buffer.alloc(20 + format.length + 8);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(header.length - 8 + dataBytes, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(format.length, 16);
+  format.copy(header, 20);
+  header.write("data", 20 + format.length, "ascii");
+  header.writeUInt32LE(dataBytes, 24 + format.length);
+  return Buffer.concat([header, ...parts.map(part => part.data)]);
+}
+
+export function joinTTSAudio(clips: TTSAudio[]): TTSAudio {
+  const contentType = clips[0].contentType;
+  if (clips.some(clip => clip.contentType !== contentType)) {
+    throw new Error("Clips differ in content type");
+  }
+  const buffers = clips.map(clip => clip.audio);
+  switch (contentType) {
+    case "audio/mpeg":
+      return { audio: joinMpeg(buffers), contentType };
+    case "audio/wav":
+      return { audio: joinWav(buffers), contentType };
+    default:
+      throw new Error(`Can't join ${contentType} clips`);
+  }
+}
+
+// ============================================================================
+// TEMPLATED SYNTHESIS
+// ============================================================================
+
+async function spliceSegments(text: string, segments: TTSSegment[], options: TTSOptions): Promise<TemplatedTTS> {
+  let spliced: TemplatedTTS["spliced"];
+  // Concurrent requests for the same reply share one splice
+  const result = await getOrSpliceTTS(text, options, async () => {
+    const results = await Promise.all(segments.map(segment => getOrSynthesizeTTS(segment.text, options)));
+    spliced = { segments: segments.length, cachedSegments: results.filter(result => result.cached).length };
+    // Throws if a segment clip was evicted meanwhile; the caller synthesizes the reply whole
+    const clips = await Promise.all(results.map(async ({ entry }) => ({
+      audio: await fs.readFile(ttsAudioPath(entry.hash)),
+      contentType: entry.contentType,
+    })));
+    return joinTTSAudio(clips);
+  });
+  return spliced ? { ...result, spliced } : result;
+}
+
+// The clip for a reply: the whole reply when it's cached, otherwise joined from cached template
+// wording and freshly synthesized slot values. Throws when the provider fails.
+export async function getOrSynthesizeTemplatedTTS(text: string, options: TTSOptions = {}, values: TTSTemplateValues = {}): Promise<TemplatedTTS> {
+  const segments = SPLICING_ENABLED ? splitTTSTemplate(text, values) : null;
+  if (!segments) {
+    return getOrSynthesizeTTS(text, options);
+  }
+
+  try {
+    return await spliceSegments(text, segments, options);
+  } catch (error) {
+    console.warn(`⚠️ TTS splicing failed, synthesizing whole reply: "${text.substring(0, 50)}..."`, error);
+    return getOrSynthesizeTTS(text, options);
+  }
+}
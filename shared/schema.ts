@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,30 +18,185 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 // Bookings table
+export const bookingStatusSchema = z.enum(["confirmed", "cancelled"]);
+export type BookingStatus = z.infer<typeof bookingStatusSchema>;
+
 export const bookings = pgTable("bookings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   email: text("email").notNull(),
-  meetingTime: timestamp("meeting_time").notNull(),
-  bookingTime: timestamp("booking_time").notNull().default(sql`now()`),
-});
+  // Stored as an absolute UTC instant; timezone records the caller's IANA zone for display
+  meetingTime: timestamp("meeting_time", { withTimezone: true }).notNull(),
+  timezone: text("timezone"),
+  hostId: text("host_id"),
+  status: text("status").$type<BookingStatus>().notNull().default("confirmed"),
+  bookingTime: timestamp("booking_time", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }),
+  // Bumped on every reschedule and cancellation - the calendar invite's SEQUENCE
+  sequence: integer("sequence").notNull().default(0),
+}, (table) => [
+  // A host can only have one active meeting starting at a given instant. Overlapping starts
+  // (duration plus buffer apart) are rejected by the storage layer under a per-host lock.
+  uniqueIndex("bookings_host_meeting_time_idx")
+    .on(table.hostId, table.meetingTime)
+    .where(sql`${table.status} <> 'cancelled'`),
+]);
 
 export const insertBookingSchema = createInsertSchema(bookings).pick({
   name: true,
   email: true,
   meetingTime: true,
+  timezone: true,
+  hostId: true,
 });
 
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type Booking = typeof bookings.$inferSelect;
 
+// Short-lived holds on slots the agent has suggested, converted to a booking on confirmation
+export const slotHolds = pgTable("slot_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  hostId: text("host_id").notNull(),
+  slotStart: timestamp("slot_start", { withTimezone: true }).notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("slot_holds_host_slot_idx").on(table.hostId, table.slotStart),
+]);
+
+export const insertSlotHoldSchema = createInsertSchema(slotHolds).pick({
+  sessionId: true,
+  hostId: true,
+  slotStart: true,
+  expiresAt: true,
+});
+
+export type InsertSlotHold = z.infer<typeof insertSlotHoldSchema>;
+export type SlotHold = typeof slotHolds.$inferSelect;
+
+// Booking notification emails, queued as jobs so reminders survive restarts
+export const notificationTypeSchema = z.enum(["confirmation", "reschedule", "reminder_24h", "reminder_1h", "cancellation"]);
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+
+// pending -> sending (claimed by a worker) -> sent | failed; cancelled when the booking changes
+export type ScheduledJobStatus = "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").$type<NotificationType>().notNull(),
+  bookingId: varchar("booking_id").notNull(),
+  runAt: timestamp("run_at", { withTimezone: true }).notNull(),
+  status: text("status").$type<ScheduledJobStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+}, (table) => [
+  index("scheduled_jobs_status_run_at_idx").on(table.status, table.runAt),
+]);
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs, {
+  type: notificationTypeSchema,
+}).pick({
+  type: true,
+  bookingId: true,
+  runAt: true,
+});
+
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type ScheduledJobUpdate = Partial<Pick<ScheduledJob, "status" | "runAt" | "attempts" | "lastError" | "completedAt">>;
+
+// Voice agent sessions table - conversation state survives restarts and can be resumed by sessionId
+export const voiceSessions = pgTable("voice_sessions", {
+  sessionId: varchar("session_id").primaryKey(),
+  messages: jsonb("messages").$type<VoiceAgentMessage[]>().notNull(),
+  collectedData: jsonb("collected_data").$type<VoiceAgentCollectedData>().notNull(),
+  timezone: text("timezone"),
+  locale: text("locale").$type<Locale>(),
+  lastUpdated: timestamp("last_updated").notNull().default(sql`now()`),
+});
+
+// Session lifecycle events (e.g. "session_abandoned" with whatever collectedData was captured)
+export const sessionEvents = pgTable("session_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const insertSessionEventSchema = createInsertSchema(sessionEvents).pick({
+  sessionId: true,
+  type: true,
+  payload: true,
+});
+
+export type InsertSessionEvent = z.infer<typeof insertSessionEventSchema>;
+export type SessionEvent = typeof sessionEvents.$inferSelect;
+
+// Whether Intl knows the IANA timezone name
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA timezone name reported by the caller's browser (e.g. "America/New_York")
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Invalid IANA timezone");
+
+// Languages the voice agent speaks (see server/locales.ts)
+export const localeSchema = z.enum(["en", "es", "hi"]);
+export type Locale = z.infer<typeof localeSchema>;
+
 // Voice Agent Schema Types
 export const voiceAgentRequestSchema = z.object({
   sessionId: z.string(),
   text: z.string(),
   final: z.boolean(),
+  timezone: timeZoneSchema.optional(),
+  locale: localeSchema.optional(),
 });
 
+// WebSocket "cancel": the caller talked over the agent; heardText is the part of the reply they heard
+export const voiceAgentCancelSchema = z.object({
+  sessionId: z.string(),
+  heardText: z.string().default(""),
+});
+
+// Speech-to-text engines the server can stream caller audio to
+export const sttProviderSchema = z.enum(["assemblyai", "deepgram", "whisper", "vosk"]);
+export type STTProviderId = z.infer<typeof sttProviderSchema>;
+
+// WebSocket "audio_start": the binary frames that follow are 16-bit mono PCM for this session
+export const audioStartSchema = z.object({
+  sessionId: z.string(),
+  sampleRate: z.number().int().positive().default(16000),
+  locale: localeSchema.optional(),
+  // Defaults to STT_PROVIDER, or the first configured engine that speaks the locale
+  provider: sttProviderSchema.optional(),
+});
+
+// One transcript update from server-side speech recognition (WebSocket "transcript")
+export interface TranscriptEvent {
+  text: string;
+  isFinal: boolean;
+  confidence?: number;
+  // The caller finished speaking; text is the whole turn
+  endOfTurn?: boolean;
+  // Word timings in milliseconds
+  words?: Array<{
+    text: string;
+    confidence: number;
+    start: number;
+    end: number;
+  }>;
+}
+
 export const voiceAgentResponseSchema = z.object({
   replyText: z.string(),
   askFor: z.string().nullable(),
@@ -54,39 +209,178 @@ export const bookingRequestSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Valid email is required"),
   meetingTime: z.string().optional(),
+  sessionId: z.string().optional(),
+  timezone: timeZoneSchema.optional(),
 });
 
+export const bookingProviderNameSchema = z.enum(["native", "calendly", "webhook"]);
+
 export const bookingResponseSchema = z.object({
-  calendlyUrl: z.string().url(),
+  provider: bookingProviderNameSchema,
+  // External page to finish the booking on (e.g. Calendly); null when the booking is complete
+  redirectUrl: z.string().url().nullable(),
+  bookingId: z.string(),
+  managementToken: z.string(),
+  calendarUrl: z.string(),
+});
+
+export const bookingRescheduleSchema = z.object({
+  meetingTime: z.string().datetime({ offset: true }),
+  timezone: timeZoneSchema.optional(),
+});
+
+export const bookingDetailsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  meetingTime: z.string(),
+  timezone: z.string().nullable(),
+  status: bookingStatusSchema,
+});
+
+// Active booking provider, used by the site's "book a call" buttons
+export const bookingProviderInfoSchema = z.object({
+  provider: bookingProviderNameSchema,
+  schedulingUrl: z.string().url().nullable(),
+});
+
+export const slotOptionSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  label: z.string(),
+});
+
+// Booking agent tools - the LLM reports what it collected through these calls and the server
+// validates the arguments before anything reaches the session
+export const agentToolNameSchema = z.enum(["set_name", "set_email", "check_availability", "hold_slot", "confirm_booking"]);
+
+export const setNameArgsSchema = z.object({
+  name: z.string().trim().min(1).max(100).describe("The caller's full name as they said it"),
+});
+
+export const setEmailArgsSchema = z.object({
+  email: z.string().trim().toLowerCase().email().describe("The caller's email address, e.g. john.smith@gmail.com"),
+});
+
+export const checkAvailabilityArgsSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+    .describe("Only slots on this day (YYYY-MM-DD, caller's timezone)"),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional()
+    .describe("Preferred start time (HH:MM, 24-hour, caller's timezone); closest slots come first"),
+  when: z.string().trim().min(1).max(200).optional()
+    .describe("The caller's own words for the day or time, e.g. \"next Tuesday afternoon\" or \"any time after 3 on Friday\" (instead of date/time)"),
+});
+
+export const holdSlotArgsSchema = z.object({
+  start: z.string().datetime({ offset: true }).describe("The start of a slot returned by check_availability"),
 });
 
+export const confirmBookingArgsSchema = z.object({});
+
 export const ttsRequestSchema = z.object({
   text: z.string().min(1, "Text is required"),
   voiceId: z.string().optional(),
+  locale: localeSchema.optional(),
 });
 
 export const ttsResponseSchema = z.object({
-  audioUrl: z.string().url(),
+  // Relative /api/tts/audio/:hash URL of the cached clip
+  audioUrl: z.string(),
 });
 
+// Admin: synthesize and pin phrases in the TTS cache so they are never evicted
+export const ttsCacheWarmSchema = z.object({
+  // Every phrase is a paid TTS call pinned on disk, so keep batches small
+  phrases: z.array(z.string().min(1).max(500)).min(1).max(50),
+  locale: localeSchema.optional(),
+});
+
+// Admin: remove phrases (every voice and language) from the TTS cache, or everything with all: true
+export const ttsCachePurgeSchema = z.object({
+  phrases: z.array(z.string().min(1)).min(1).optional(),
+  all: z.boolean().optional(),
+}).refine(body => body.phrases || body.all, "Pass phrases or all: true");
+
 export type VoiceAgentRequest = z.infer<typeof voiceAgentRequestSchema>;
 export type VoiceAgentResponse = z.infer<typeof voiceAgentResponseSchema>;
 export type BookingRequest = z.infer<typeof bookingRequestSchema>;
 export type BookingResponse = z.infer<typeof bookingResponseSchema>;
+export type BookingProviderName = z.infer<typeof bookingProviderNameSchema>;
+export type BookingProviderInfo = z.infer<typeof bookingProviderInfoSchema>;
+export type SlotOption = z.infer<typeof slotOptionSchema>;
+export type BookingRescheduleRequest = z.infer<typeof bookingRescheduleSchema>;
+export type BookingDetails = z.infer<typeof bookingDetailsSchema>;
+export type AgentToolName = z.infer<typeof agentToolNameSchema>;
+export type SetNameArgs = z.infer<typeof setNameArgsSchema>;
+export type SetEmailArgs = z.infer<typeof setEmailArgsSchema>;
+export type CheckAvailabilityArgs = z.infer<typeof checkAvailabilityArgsSchema>;
+export type HoldSlotArgs = z.infer<typeof holdSlotArgsSchema>;
 export type TTSRequest = z.infer<typeof ttsRequestSchema>;
 export type TTSResponse = z.infer<typeof ttsResponseSchema>;
 
-// In-memory session state interface (not stored in database)
+// Voice agent session state (persisted in the voice_sessions table)
+export interface VoiceAgentMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A concrete slot from the availability engine (ISO instants)
+export interface SlotSelection {
+  start: string;
+  end: string;
+  hostId: string;
+}
+
+// What the caller is trying to do in this conversation
+export type VoiceAgentIntent = 'book' | 'reschedule' | 'cancel';
+
+// Steps of a new booking conversation (see server/bookingFlow.ts)
+export const bookingFlowStateSchema = z.enum(["greeting", "name", "slot", "email", "confirmation", "booked", "handoff"]);
+export type BookingFlowState = z.infer<typeof bookingFlowStateSchema>;
+
+export interface BookingFlow {
+  state: BookingFlowState;
+  // Completed turns without leaving this state
+  turnsInState: number;
+}
+
+// An email address pieced together from the caller's words (see server/spokenEmail.ts)
+export interface EmailCandidate {
+  email: string;
+  // 0-1: how sure we are the caller meant exactly this
+  confidence: number;
+  // What the caller should double-check, e.g. '"oh" - the letter o or zero'
+  uncertain: string[];
+}
+
+export interface VoiceAgentCollectedData {
+  name?: string;
+  email?: string;
+  meetingPreference?: string;
+  userPreferredTime?: string;
+  rejectedSlots: string[];
+  lastSuggestedSlot?: string;
+  suggestedSlot?: SlotSelection;
+  selectedSlot?: SlotSelection;
+  takenSlot?: string;
+  bookingId?: string;
+  intent?: VoiceAgentIntent;
+  // Returning callers: the booking being rescheduled or cancelled
+  existingBookingId?: string;
+  existingBookingLabel?: string;
+  lastAskFor?: string | null;
+  // Slots the agent last offered through check_availability, so a later turn can hold one
+  offeredSlots?: SlotOption[];
+  flow?: BookingFlow;
+  // Readings of the caller's last spoken email, best first
+  emailCandidates?: EmailCandidate[];
+}
+
 export interface VoiceAgentSession {
   sessionId: string;
-  messages: Array<{ role: 'system' | 'user' | 'assistant', content: string }>;
-  collectedData: {
-    name?: string;
-    email?: string;
-    meetingPreference?: string;
-    userPreferredTime?: string;
-    rejectedSlots: string[];
-    lastSuggestedSlot?: string;
-  };
+  messages: VoiceAgentMessage[];
+  collectedData: VoiceAgentCollectedData;
+  timezone?: string | null;
+  locale?: Locale | null;
   lastUpdated: Date;
 }